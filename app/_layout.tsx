@@ -25,9 +25,14 @@ export default function RootLayout() {
         <Stack.Screen name="index" />
         <Stack.Screen name="login" />
         <Stack.Screen name="signup" />
+        <Stack.Screen name="forgot-password" />
+        <Stack.Screen name="verify-email" />
         <Stack.Screen name="dashboard" />
         <Stack.Screen name="new-request" />
+        <Stack.Screen name="profile" />
         <Stack.Screen name="edit-ticket" />
+        <Stack.Screen name="admin" />
+        <Stack.Screen name="categories" />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
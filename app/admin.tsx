@@ -0,0 +1,443 @@
+import SlaBadge from '@/components/SlaBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import { Ticket } from '@/lib/ticketRepository';
+import { getStatusBadgeStyle, TICKET_STATUSES, TicketStatus } from '@/lib/ticketStatus';
+import { getDisplayTicketId, matchesTicketReference } from '@/lib/ticketUtils';
+import { DEFAULT_PRIORITY } from '@/shared/slaPolicy';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Search, Tags } from 'lucide-react-native';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+const STATUS_FILTERS: (TicketStatus | 'All')[] = ['All', ...TICKET_STATUSES];
+
+const { width: screenWidth } = Dimensions.get('window');
+const isMobile = screenWidth < 768;
+
+export default function AdminScreen() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TicketStatus | 'All'>('All');
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const router = useRouter();
+
+  // Only administrators may use the console
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      console.log('Admin: No user found, redirecting to login');
+      router.replace('/login');
+    } else if (!isAdmin) {
+      console.log('Admin: User is not an administrator, redirecting to dashboard');
+      router.replace('/dashboard');
+    }
+  }, [user, isAdmin, authLoading, router]);
+
+  // Listen to tickets of all users in real-time
+  useEffect(() => {
+    if (!user || !isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    // An empty query spans every user's tickets
+    const unsubscribe = ticketRepository.subscribe({}, (ticketData) => {
+      setTickets(ticketData);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error fetching all tickets:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, isAdmin]);
+
+  // Filter tickets based on status filter and search query
+  const filteredTickets = tickets.filter(ticket => {
+    if (statusFilter !== 'All' && ticket.status !== statusFilter) {
+      return false;
+    }
+
+    const search = searchQuery.toLowerCase();
+    return (
+      ticket.title.toLowerCase().includes(search) ||
+      ticket.category.toLowerCase().includes(search) ||
+      ticket.status.toLowerCase().includes(search) ||
+      ticket.name.toLowerCase().includes(search) ||
+      ticket.email.toLowerCase().includes(search) ||
+      matchesTicketReference(ticket, search)
+    );
+  });
+
+  const getStatusCount = (status: TicketStatus | 'All') => {
+    if (status === 'All') return tickets.length;
+    return tickets.filter(t => t.status === status).length;
+  };
+
+  const formatDate = (timestamp: any) => {
+    if (!timestamp) return 'N/A';
+
+    try {
+      const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
+      return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    } catch {
+      return 'N/A';
+    }
+  };
+
+  const handleTicketPress = (ticket: Ticket) => {
+    router.push(`/edit-ticket?id=${ticket.id}&ownerId=${ticket.ownerId}`);
+  };
+
+  if (!user || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <ArrowLeft size={20} color="#374151" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Support Console</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.push('/categories')}
+          activeOpacity={0.7}
+        >
+          <Tags size={20} color="#3B4C80" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.pageTitle}>All Requests</Text>
+
+        {/* Status Filters */}
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScroll}
+          contentContainerStyle={styles.filterRow}
+        >
+          {STATUS_FILTERS.map(status => (
+            <TouchableOpacity
+              key={status}
+              style={[styles.filterChip, statusFilter === status && styles.filterChipActive]}
+              onPress={() => setStatusFilter(status)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.filterChipText, statusFilter === status && styles.filterChipTextActive]}>
+                {status} ({getStatusCount(status)})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {/* Search */}
+        <View style={styles.searchContainer}>
+          <Search size={16} color="#6b7280" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by title, category, status, submitter, email, or ticket ID"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+
+        {/* Tickets List */}
+        <View style={styles.ticketsContainer}>
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#3B4C80" />
+              <Text style={styles.loadingText}>Loading all requests...</Text>
+            </View>
+          ) : filteredTickets.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {searchQuery || statusFilter !== 'All' ? 'No requests match your filters.' : 'The queue is empty.'}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.ticketsList}>
+              {filteredTickets.map(ticket => (
+                <TouchableOpacity
+                  key={`${ticket.ownerId}/${ticket.id}`}
+                  style={styles.ticketCard}
+                  onPress={() => handleTicketPress(ticket)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.ticketHeader}>
+                    <View style={styles.ticketIdContainer}>
+                      <Text style={styles.ticketIdText}>
+                        {getDisplayTicketId(ticket)}
+                      </Text>
+                    </View>
+                    <View style={styles.badgeRow}>
+                      <SlaBadge ticket={ticket} />
+                      <View style={[styles.statusBadge, getStatusBadgeStyle(ticket.status)]}>
+                        <Text style={[styles.statusBadgeText, { color: getStatusBadgeStyle(ticket.status).color }]}>
+                          {ticket.status}
+                        </Text>
+                      </View>
+                    </View>
+                  </View>
+
+                  <Text style={styles.ticketTitle} numberOfLines={2}>
+                    {ticket.title}
+                  </Text>
+
+                  <Text style={styles.ticketSubmitter} numberOfLines={1}>
+                    {ticket.name} · {ticket.email}
+                  </Text>
+
+                  <Text style={styles.ticketAssignment} numberOfLines={1}>
+                    {ticket.assigneeName || 'Unassigned'}{ticket.team ? ` · ${ticket.team}` : ''}
+                  </Text>
+
+                  <View style={styles.ticketMeta}>
+                    <View style={styles.badgeRow}>
+                      <Text style={styles.ticketCategory}>{ticket.category}</Text>
+                      <Text style={styles.ticketCategory}>{ticket.priority || DEFAULT_PRIORITY}</Text>
+                    </View>
+                    <Text style={styles.ticketDate}>
+                      {formatDate(ticket.createdAt)}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingTop: 20, // Extra padding for notched devices
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  content: {
+    flex: 1,
+    padding: isMobile ? 16 : 20,
+  },
+  pageTitle: {
+    fontSize: isMobile ? 24 : 28,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 24,
+  },
+  filterScroll: {
+    marginBottom: 20,
+  },
+  filterRow: {
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  filterChipActive: {
+    backgroundColor: '#3B4C80',
+    borderColor: '#3B4C80',
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    marginLeft: 8,
+    color: '#374151',
+  },
+  ticketsContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    overflow: 'hidden',
+    marginBottom: 20,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  emptyContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  ticketsList: {
+    padding: 16,
+  },
+  ticketCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  ticketHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  ticketIdContainer: {
+    backgroundColor: '#f0f4ff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  ticketIdText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B4C80',
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  ticketTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+    lineHeight: 20,
+  },
+  ticketSubmitter: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  ticketAssignment: {
+    fontSize: 12,
+    color: '#3B4C80',
+    marginBottom: 8,
+  },
+  ticketMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ticketCategory: {
+    fontSize: 12,
+    color: '#6b7280',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  ticketDate: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,556 @@
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CategoryErrors,
+  getCategories,
+  getCategoryId,
+  saveCategory,
+  TicketCategory,
+  validateCategory,
+} from '@/lib/ticketCategories';
+import { hasNumberedTickets } from '@/lib/ticketUtils';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Plus } from 'lucide-react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+const { width: screenWidth } = Dimensions.get('window');
+const isMobile = screenWidth < 768;
+
+// Dialog for creating a category or editing an existing one
+const CategoryDialog = ({
+  visible,
+  category,
+  isNew,
+  prefixLocked,
+  categories,
+  saving,
+  onSave,
+  onCancel,
+}: {
+  visible: boolean;
+  category: TicketCategory;
+  isNew: boolean;
+  prefixLocked: boolean;
+  categories: TicketCategory[];
+  saving: boolean;
+  onSave: (category: TicketCategory) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState<TicketCategory>(category);
+  const [errors, setErrors] = useState<CategoryErrors>({});
+
+  // Start from the selected category every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(category);
+      setErrors({});
+    }
+  }, [visible, category]);
+
+  const updateDraft = (field: keyof CategoryErrors, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: field === 'prefix' ? value.toUpperCase() : value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSave = () => {
+    const next = isNew ? { ...draft, id: getCategoryId(draft.name) } : draft;
+    const newErrors = validateCategory(next, categories, isNew);
+    setErrors(newErrors);
+
+    if (Object.keys(newErrors).length === 0) {
+      onSave(next);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={dialogStyles.overlay}>
+        <View style={dialogStyles.dialog}>
+          <Text style={dialogStyles.title}>{isNew ? 'New Category' : `Edit ${category.name}`}</Text>
+
+          <Text style={dialogStyles.label}>Name</Text>
+          <TextInput
+            style={[dialogStyles.input, !isNew && dialogStyles.inputDisabled, errors.name && dialogStyles.inputError]}
+            value={draft.name}
+            onChangeText={(value) => updateDraft('name', value)}
+            placeholder="e.g. Facilities"
+            editable={isNew && !saving}
+          />
+          {errors.name ? (
+            <Text style={dialogStyles.errorText}>{errors.name}</Text>
+          ) : !isNew && (
+            <Text style={dialogStyles.hintText}>Names cannot be changed because tickets refer to them.</Text>
+          )}
+
+          <Text style={dialogStyles.label}>Ticket ID prefix</Text>
+          <TextInput
+            style={[dialogStyles.input, prefixLocked && dialogStyles.inputDisabled, errors.prefix && dialogStyles.inputError]}
+            value={draft.prefix}
+            onChangeText={(value) => updateDraft('prefix', value)}
+            placeholder="e.g. F"
+            autoCapitalize="characters"
+            maxLength={4}
+            editable={!prefixLocked && !saving}
+          />
+          {errors.prefix ? (
+            <Text style={dialogStyles.errorText}>{errors.prefix}</Text>
+          ) : prefixLocked ? (
+            <Text style={dialogStyles.hintText}>Tickets have already been numbered with this prefix, so it cannot be changed.</Text>
+          ) : (
+            <Text style={dialogStyles.hintText}>New tickets are numbered {draft.prefix || 'X'}-0001, {draft.prefix || 'X'}-0002, ...</Text>
+          )}
+
+          <Text style={dialogStyles.label}>Description</Text>
+          <TextInput
+            style={[dialogStyles.input, dialogStyles.textArea, errors.description && dialogStyles.inputError]}
+            value={draft.description}
+            onChangeText={(value) => updateDraft('description', value)}
+            placeholder="Shown under the category on the request form"
+            multiline
+            editable={!saving}
+          />
+          {errors.description && <Text style={dialogStyles.errorText}>{errors.description}</Text>}
+
+          <View style={dialogStyles.switchRow}>
+            <View style={dialogStyles.switchText}>
+              <Text style={dialogStyles.label}>Active</Text>
+              <Text style={dialogStyles.hintText}>Inactive categories cannot be chosen for new requests.</Text>
+            </View>
+            <Switch
+              value={draft.active}
+              onValueChange={(active) => setDraft(prev => ({ ...prev, active }))}
+              disabled={saving}
+              trackColor={{ true: '#3B4C80' }}
+            />
+          </View>
+
+          <View style={dialogStyles.buttonContainer}>
+            <TouchableOpacity
+              style={[dialogStyles.button, dialogStyles.cancelButton]}
+              onPress={onCancel}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={dialogStyles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[dialogStyles.button, dialogStyles.confirmButton]}
+              onPress={handleSave}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={dialogStyles.confirmButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const dialogStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 420,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#374151',
+  },
+  inputDisabled: {
+    backgroundColor: '#f3f4f6',
+    color: '#6b7280',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  textArea: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  hintText: {
+    color: '#6b7280',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  switchText: {
+    flex: 1,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 44,
+  },
+  cancelButton: {
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  confirmButton: {
+    backgroundColor: '#3B4C80',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#fff',
+  },
+});
+
+export default function CategoriesScreen() {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ category: TicketCategory; isNew: boolean; prefixLocked: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const router = useRouter();
+
+  // Only administrators may manage categories
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      router.replace('/login');
+    } else if (!isAdmin) {
+      router.replace('/dashboard');
+    }
+  }, [user, isAdmin, authLoading, router]);
+
+  const loadCategories = useCallback(async () => {
+    setCategories(await getCategories());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      loadCategories();
+    }
+  }, [user, isAdmin, loadCategories]);
+
+  const handleAdd = () => {
+    setEditing({
+      category: {
+        id: '',
+        name: '',
+        prefix: '',
+        description: '',
+        active: true,
+        order: Math.max(-1, ...categories.map(category => category.order)) + 1,
+        fields: [],
+      },
+      isNew: true,
+      prefixLocked: false,
+    });
+  };
+
+  // Prefixes already in issued ticket IDs are kept, so no two tickets share an ID
+  const handleEdit = async (category: TicketCategory) => {
+    let prefixLocked = true;
+    try {
+      prefixLocked = await hasNumberedTickets(category.name);
+    } catch (error) {
+      console.error('Error checking ticket numbers:', error);
+    }
+    setEditing({ category, isNew: false, prefixLocked });
+  };
+
+  const handleSave = async (category: TicketCategory) => {
+    setSaving(true);
+    try {
+      await saveCategory(category);
+      setEditing(null);
+      await loadCategories();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      Alert.alert('Error', 'Failed to save the category. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          activeOpacity={0.7}
+        >
+          <ArrowLeft size={20} color="#374151" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Categories</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={handleAdd}
+          disabled={loading}
+          activeOpacity={0.7}
+        >
+          <Plus size={16} color="#fff" />
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.pageTitle}>Request Categories</Text>
+
+        <View style={styles.listContainer}>
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#3B4C80" />
+              <Text style={styles.loadingText}>Loading categories...</Text>
+            </View>
+          ) : (
+            <View style={styles.list}>
+              {categories.map(category => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.card, !category.active && styles.cardInactive]}
+                  onPress={() => handleEdit(category)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.cardHeader}>
+                    <View style={styles.prefixContainer}>
+                      <Text style={styles.prefixText}>{category.prefix}</Text>
+                    </View>
+                    <Text style={styles.cardTitle}>{category.name}</Text>
+                    {!category.active && <Text style={styles.inactiveBadge}>Inactive</Text>}
+                  </View>
+                  <Text style={styles.cardDescription}>{category.description}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {editing && (
+        <CategoryDialog
+          visible={true}
+          category={editing.category}
+          isNew={editing.isNew}
+          prefixLocked={editing.prefixLocked}
+          categories={categories}
+          saving={saving}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingTop: 20, // Extra padding for notched devices
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#3B4C80',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  content: {
+    flex: 1,
+    padding: isMobile ? 16 : 20,
+  },
+  pageTitle: {
+    fontSize: isMobile ? 24 : 28,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 24,
+  },
+  listContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    overflow: 'hidden',
+    marginBottom: 20,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardInactive: {
+    opacity: 0.6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  prefixContainer: {
+    backgroundColor: '#f0f4ff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  prefixText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B4C80',
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  inactiveBadge: {
+    fontSize: 12,
+    color: '#6b7280',
+    backgroundColor: '#f3f4f6',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+});
@@ -1,8 +1,12 @@
+import SlaBadge from '@/components/SlaBadge';
 import { useAuth } from '@/contexts/AuthContext';
-import { db } from '@/lib/firebase';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import { Ticket } from '@/lib/ticketRepository';
+import { getStatusBadgeStyle, TICKET_STATUSES } from '@/lib/ticketStatus';
+import { getDisplayTicketId, matchesTicketReference } from '@/lib/ticketUtils';
+import { DEFAULT_PRIORITY } from '@/shared/slaPolicy';
 import { useRouter } from 'expo-router';
-import { collection, onSnapshot, orderBy, query } from 'firebase/firestore';
-import { LogOut, Plus, Search } from 'lucide-react-native';
+import { LogOut, Plus, Search, ShieldCheck } from 'lucide-react-native';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -18,29 +22,7 @@ import {
   View,
 } from 'react-native';
 
-interface Ticket {
-  id: string;
-  ticketId?: string;
-  name: string;
-  phone: string;
-  email: string;
-  ccEmail: string;
-  title: string;
-  details: string;
-  category: string;
-  status: string;
-  createdAt: any;
-  modifiedAt?: any;
-  history?: HistoryEntry[];
-}
-
-interface HistoryEntry {
-  id: string;
-  author: string;
-  timestamp: any;
-  notes: string;
-  type: 'note' | 'edit';
-}
+type DashboardView = 'mine' | 'assigned';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isMobile = screenWidth < 768;
@@ -164,7 +146,8 @@ export default function DashboardScreen() {
   const [tickets, setTickets] = useState<Ticket[]>([]);
   const [loading, setLoading] = useState(true);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
-  const { user, userData, logout, isLoggingOut } = useAuth();
+  const [view, setView] = useState<DashboardView>('mine');
+  const { user, userData, isAdmin, isAgent, logout, isLoggingOut, profileError, reloadUserData } = useAuth();
   const router = useRouter();
 
   // Redirect to login if user is not authenticated
@@ -182,17 +165,11 @@ export default function DashboardScreen() {
       return;
     }
 
-    const ticketsRef = collection(db, 'users', user.uid, 'tickets');
-    const q = query(ticketsRef, orderBy('createdAt', 'desc'));
+    // Agents can switch to the tickets assigned to them across all users
+    const showAssigned = view === 'assigned' && isAgent;
+    const ticketQuery = showAssigned ? { assigneeId: user.uid } : { ownerId: user.uid };
 
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const ticketData: Ticket[] = [];
-      snapshot.forEach((doc) => {
-        ticketData.push({
-          id: doc.id,
-          ...doc.data(),
-        } as Ticket);
-      });
+    const unsubscribe = ticketRepository.subscribe(ticketQuery, (ticketData) => {
       setTickets(ticketData);
       setLoading(false);
     }, (error) => {
@@ -201,16 +178,13 @@ export default function DashboardScreen() {
     });
 
     return () => unsubscribe();
-  }, [user]);
+  }, [user, view, isAgent]);
 
   // Calculate status counts
-  const statusCounts = {
-    new: tickets.filter(t => t.status === 'New').length,
-    inReview: tickets.filter(t => t.status === 'In Review').length,
-    workInProgress: tickets.filter(t => t.status === 'Work In Progress').length,
-    resolved: tickets.filter(t => t.status === 'Resolved').length,
-    closed: tickets.filter(t => t.status === 'Closed').length,
-  };
+  const statusCounts = TICKET_STATUSES.map(status => ({
+    status,
+    count: tickets.filter(t => t.status === status).length,
+  }));
 
   // Filter tickets based on search query
   const filteredTickets = tickets.filter(ticket =>
@@ -218,26 +192,9 @@ export default function DashboardScreen() {
     ticket.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
     ticket.status.toLowerCase().includes(searchQuery.toLowerCase()) ||
     ticket.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (ticket.ticketId && ticket.ticketId.toLowerCase().includes(searchQuery.toLowerCase()))
+    matchesTicketReference(ticket, searchQuery)
   );
 
-  const getStatusBadgeStyle = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'new':
-        return { backgroundColor: '#dbeafe', color: '#1e40af' };
-      case 'in review':
-        return { backgroundColor: '#fef3c7', color: '#92400e' };
-      case 'work in progress':
-        return { backgroundColor: '#ecfdf5', color: '#065f46' };
-      case 'resolved':
-        return { backgroundColor: '#f3e8ff', color: '#7c3aed' };
-      case 'closed':
-        return { backgroundColor: '#f3f4f6', color: '#374151' };
-      default:
-        return { backgroundColor: '#f3f4f6', color: '#374151' };
-    }
-  };
-
   const formatDate = (timestamp: any) => {
     if (!timestamp) return 'N/A';
     
@@ -252,13 +209,6 @@ export default function DashboardScreen() {
     }
   };
 
-  const getDisplayTicketId = (ticket: Ticket) => {
-    if (ticket.ticketId) {
-      return ticket.ticketId;
-    }
-    return ticket.id.substring(0, 8).toUpperCase();
-  };
-
   const handleLogoutPress = () => {
     console.log('🚪 Logout button pressed - showing confirmation dialog');
     setShowLogoutConfirm(true);
@@ -290,11 +240,23 @@ export default function DashboardScreen() {
   };
 
   const handleNewRequest = () => {
-    router.push('/new-request');
+    router.push(userData?.emailVerified ? '/new-request' : '/verify-email');
+  };
+
+  const handleOpenProfile = () => {
+    router.push('/profile');
+  };
+
+  const handleOpenAdmin = () => {
+    router.push('/admin');
   };
 
   const handleTicketPress = (ticket: Ticket) => {
-    router.push(`/edit-ticket?id=${ticket.id}`);
+    if (ticket.ownerId === user?.uid) {
+      router.push(`/edit-ticket?id=${ticket.id}`);
+    } else {
+      router.push(`/edit-ticket?id=${ticket.id}&ownerId=${ticket.ownerId}`);
+    }
   };
 
   // Don't render dashboard if user is not authenticated
@@ -322,7 +284,11 @@ export default function DashboardScreen() {
           <Text style={styles.appTitle}>Front Desk</Text>  
            </View>
            <View style={styles.headerRight}>
-             <View style={styles.userInfo}>
+             <TouchableOpacity
+               onPress={handleOpenProfile}
+               style={styles.userInfo}
+               activeOpacity={0.7}
+             >
                <View style={styles.avatar}>
                  <Text style={styles.avatarText}>
                    {userData?.name?.substring(0, 2).toUpperCase() || 'CS'}
@@ -333,7 +299,17 @@ export default function DashboardScreen() {
                 {userData?.name || user?.displayName || 'Chezhiyan Siva'}
               </Text>
             )}
-          </View>
+          </TouchableOpacity>
+          {isAdmin && (
+            <TouchableOpacity
+              onPress={handleOpenAdmin}
+              style={styles.adminButton}
+              activeOpacity={0.7}
+            >
+              <ShieldCheck size={20} color="#3B4C80" />
+              {!isMobile && <Text style={styles.adminButtonText}>Console</Text>}
+            </TouchableOpacity>
+          )}
           <TouchableOpacity 
             onPress={handleLogoutPress} 
             style={[styles.logoutButton, isLoggingOut && styles.logoutButtonDisabled]}
@@ -351,42 +327,53 @@ export default function DashboardScreen() {
 
       {/* Main Content */}
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {profileError && (
+          <View style={styles.profileErrorBanner}>
+            <Text style={styles.profileErrorText}>{profileError}</Text>
+            <TouchableOpacity onPress={reloadUserData} activeOpacity={0.7}>
+              <Text style={styles.profileErrorRetry}>RETRY</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Page Title */}
-        <Text style={styles.pageTitle}>My Requests</Text>
+        <Text style={styles.pageTitle}>{view === 'assigned' ? 'Assigned to Me' : 'My Requests'}</Text>
+
+        {/* View Toggle */}
+        {isAgent && (
+          <View style={styles.viewToggle}>
+            <TouchableOpacity
+              style={[styles.viewToggleOption, view === 'mine' && styles.viewToggleOptionActive]}
+              onPress={() => setView('mine')}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.viewToggleText, view === 'mine' && styles.viewToggleTextActive]}>
+                My Requests
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.viewToggleOption, view === 'assigned' && styles.viewToggleOptionActive]}
+              onPress={() => setView('assigned')}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.viewToggleText, view === 'assigned' && styles.viewToggleTextActive]}>
+                Assigned to Me
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         {/* Status Cards Container */}
         <View style={styles.statusContainer}>
           <View style={styles.statusRow}>
-            <View style={styles.statusCard}>
-              <View style={styles.statusLabelContainer}>
-                <Text style={styles.statusLabel}>New</Text>
+            {statusCounts.map(({ status, count }) => (
+              <View key={status} style={styles.statusCard}>
+                <View style={styles.statusLabelContainer}>
+                  <Text style={styles.statusLabel}>{status}</Text>
+                </View>
+                <Text style={styles.statusCount}>{count}</Text>
               </View>
-              <Text style={styles.statusCount}>{statusCounts.new}</Text>
-            </View>
-            <View style={styles.statusCard}>
-              <View style={styles.statusLabelContainer}>
-                <Text style={styles.statusLabel}>In Review</Text>
-              </View>
-              <Text style={styles.statusCount}>{statusCounts.inReview}</Text>
-            </View>
-            <View style={styles.statusCard}>
-              <View style={styles.statusLabelContainer}>
-                <Text style={styles.statusLabel}>Work In{'\n'}Progress</Text>
-              </View>
-              <Text style={styles.statusCount}>{statusCounts.workInProgress}</Text>
-            </View>
-            <View style={styles.statusCard}>
-              <View style={styles.statusLabelContainer}>
-                <Text style={styles.statusLabel}>Resolved</Text>
-              </View>
-              <Text style={styles.statusCount}>{statusCounts.resolved}</Text>
-            </View>
-            <View style={styles.statusCard}>
-              <View style={styles.statusLabelContainer}>
-                <Text style={styles.statusLabel}>Closed</Text>
-              </View>
-              <Text style={styles.statusCount}>{statusCounts.closed}</Text>
-            </View>
+            ))}
           </View>
         </View>
 
@@ -417,7 +404,11 @@ export default function DashboardScreen() {
           ) : filteredTickets.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Text style={styles.emptyText}>
-                {searchQuery ? 'No requests match your search.' : 'No requests found. Create your first request!'}
+                {searchQuery
+                  ? 'No requests match your search.'
+                  : view === 'assigned'
+                    ? 'No requests are assigned to you.'
+                    : 'No requests found. Create your first request!'}
               </Text>
             </View>
           ) : (
@@ -435,10 +426,13 @@ export default function DashboardScreen() {
                         {getDisplayTicketId(ticket)}
                       </Text>
                     </View>
-                    <View style={[styles.statusBadge, getStatusBadgeStyle(ticket.status)]}>
-                      <Text style={[styles.statusBadgeText, { color: getStatusBadgeStyle(ticket.status).color }]}>
-                        {ticket.status}
-                      </Text>
+                    <View style={styles.badgeRow}>
+                      <SlaBadge ticket={ticket} />
+                      <View style={[styles.statusBadge, getStatusBadgeStyle(ticket.status)]}>
+                        <Text style={[styles.statusBadgeText, { color: getStatusBadgeStyle(ticket.status).color }]}>
+                          {ticket.status}
+                        </Text>
+                      </View>
                     </View>
                   </View>
                   
@@ -446,8 +440,17 @@ export default function DashboardScreen() {
                     {ticket.title}
                   </Text>
                   
+                  {(ticket.assigneeName || ticket.team) && (
+                    <Text style={styles.ticketAssignment} numberOfLines={1}>
+                      {[ticket.assigneeName, ticket.team].filter(Boolean).join(' · ')}
+                    </Text>
+                  )}
+
                   <View style={styles.ticketMeta}>
-                    <Text style={styles.ticketCategory}>{ticket.category}</Text>
+                    <View style={styles.badgeRow}>
+                      <Text style={styles.ticketCategory}>{ticket.category}</Text>
+                      <Text style={styles.ticketCategory}>{ticket.priority || DEFAULT_PRIORITY}</Text>
+                    </View>
                     <Text style={styles.ticketDate}>
                       {formatDate(ticket.createdAt)}
                     </Text>
@@ -526,6 +529,22 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#374151',
   },
+  adminButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0f4ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    minHeight: 36,
+  },
+  adminButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#3B4C80',
+  },
   logoutButton: {
     padding: 8,
     borderRadius: 8,
@@ -544,12 +563,60 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: isMobile ? 16 : 20,
   },
+  profileErrorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  profileErrorText: {
+    flex: 1,
+    color: '#dc2626',
+    fontSize: 14,
+  },
+  profileErrorRetry: {
+    color: '#dc2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   pageTitle: {
     fontSize: isMobile ? 24 : 28,
     fontWeight: '600',
     color: '#374151',
     marginBottom: 24,
   },
+  viewToggle: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    padding: 4,
+    marginBottom: 20,
+  },
+  viewToggleOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  viewToggleOptionActive: {
+    backgroundColor: '#3B4C80',
+  },
+  viewToggleText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  viewToggleTextActive: {
+    color: '#fff',
+  },
   statusContainer: {
     marginBottom: 24,
   },
@@ -704,6 +771,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#3B4C80',
   },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -721,6 +793,11 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     lineHeight: 20,
   },
+  ticketAssignment: {
+    fontSize: 12,
+    color: '#3B4C80',
+    marginBottom: 8,
+  },
   ticketMeta: {
     flexDirection: 'row',
     justifyContent: 'space-between',
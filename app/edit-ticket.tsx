@@ -1,9 +1,60 @@
+import AttachmentList from '@/components/AttachmentList';
+import AttachmentPicker from '@/components/AttachmentPicker';
+import CategoryPicker from '@/components/CategoryPicker';
+import EmailChipInput from '@/components/EmailChipInput';
+import IntakeFieldInputs from '@/components/IntakeFieldInputs';
 import { useAuth } from '@/contexts/AuthContext';
-import { db } from '@/lib/firebase';
+import { useDraft } from '@/hooks/useDraft';
+import { attachmentStorage } from '@/lib/attachmentStorage';
+import { PendingAttachment, uploadAttachments } from '@/lib/attachments';
+import {
+    findInvalidEmails,
+    normalizeCcRecipients,
+    parseEmailList,
+} from '@/lib/ccRecipients';
+import { getDraftKey } from '@/lib/drafts';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import {
+    IntakeErrors,
+    toStoredIntakeValues,
+    validateIntakeValues,
+} from '@/lib/intakeFields';
+import {
+    changeTicketStatus,
+    getAllowedTransitions,
+    getStatusBadgeStyle,
+    InvalidStatusTransitionError,
+    TicketStatus,
+} from '@/lib/ticketStatus';
+import { HistoryEntry, Ticket, TicketRef } from '@/lib/ticketRepository';
+import { Agent, assignTicket, getAgents, SUPPORT_TEAMS, TicketAssignment } from '@/lib/ticketAssignment';
+import { getCategories, getCategoryFields, TicketCategory } from '@/lib/ticketCategories';
+import {
+    ConflictChoice,
+    EditableTicketField,
+    formatChangeValue,
+    formatFieldValue,
+    getChangedFields,
+    getFieldLabel,
+    getLaterEditedFields,
+    isIntakeEdited,
+    mergeFormData,
+    revertTicketToEntry,
+    saveTicketEdits,
+    TICKET_FIELD_LABELS,
+    TicketEditConflictError,
+    TicketFormData,
+    TicketRevertConflictError,
+    toTicketFormData,
+} from '@/lib/ticketForm';
+import { getDisplayTicketId } from '@/lib/ticketUtils';
+import {
+    DEFAULT_PRIORITY,
+    TICKET_PRIORITIES,
+} from '@/shared/slaPolicy';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { arrayUnion, doc, getDoc, serverTimestamp, updateDoc } from 'firebase/firestore';
 import { ArrowLeft, Plus } from 'lucide-react-native';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -17,46 +68,21 @@ import {
     View,
 } from 'react-native';
 
-interface Ticket {
-  id: string;
-  ticketId?: string;
-  name: string;
-  phone: string;
-  email: string;
-  ccEmail: string;
-  title: string;
-  details: string;
-  category: 'Service' | 'Technical';
-  status: string;
-  createdAt: any;
-  modifiedAt?: any;
-  history?: HistoryEntry[];
-}
-
-interface HistoryEntry {
-  id: string;
-  author: string;
-  timestamp: any;
-  notes: string;
-  type: 'note' | 'edit';
+// A save that collided with changes made elsewhere, as shown in the merge dialog
+interface MergeConflict {
+  conflicts: EditableTicketField[];
+  original: TicketFormData;  // What the form was loaded with
+  mine: TicketFormData;      // The user's edits
+  theirs: TicketFormData;    // The ticket as it is now
 }
 
-interface FormData {
-  name: string;
-  phone: string;
-  email: string;
-  ccEmail: string;
-  title: string;
-  details: string;
-  category: 'Service' | 'Technical';
-  status: string;
-}
+const isNoteDraftEmpty = (note: string) => !note.trim();
 
 interface FormErrors {
   name?: string;
   phone?: string;
   email?: string;
-  ccEmail?: string;
+  ccEmails?: string;
   title?: string;
   details?: string;
 }
@@ -66,12 +92,14 @@ const ConfirmationDialog = ({
   visible, 
   title, 
   message, 
+  confirmText,
   onConfirm, 
   onCancel 
 }: {
   visible: boolean;
   title: string;
   message: string;
+  confirmText: string;
   onConfirm: () => void;
   onCancel: () => void;
 }) => {
@@ -101,7 +129,7 @@ const ConfirmationDialog = ({
               onPress={onConfirm}
               activeOpacity={0.7}
             >
-              <Text style={confirmStyles.confirmButtonText}>Leave</Text>
+              <Text style={confirmStyles.confirmButtonText}>{confirmText}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -177,80 +205,428 @@ const confirmStyles = StyleSheet.create({
   },
 });
 
+// Assignment dialog for picking an agent and team
+const AssignmentDialog = ({
+  visible,
+  agents,
+  loadingAgents,
+  initialAssigneeId,
+  initialTeam,
+  saving,
+  onConfirm,
+  onCancel
+}: {
+  visible: boolean;
+  agents: Agent[];
+  loadingAgents: boolean;
+  initialAssigneeId: string | null;
+  initialTeam: string | null;
+  saving: boolean;
+  onConfirm: (assignment: TicketAssignment) => void;
+  onCancel: () => void;
+}) => {
+  const [assigneeId, setAssigneeId] = useState<string | null>(initialAssigneeId);
+  const [team, setTeam] = useState<string | null>(initialTeam);
+
+  // Start from the ticket's current assignment every time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setAssigneeId(initialAssigneeId);
+      setTeam(initialTeam);
+    }
+  }, [visible, initialAssigneeId, initialTeam]);
+
+  const handleConfirm = () => {
+    onConfirm({
+      assignee: agents.find(agent => agent.uid === assigneeId) || null,
+      team,
+    });
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={assignStyles.option}
+      onPress={onPress}
+      disabled={saving}
+      activeOpacity={0.7}
+    >
+      <View style={assignStyles.radioButton}>
+        {selected && <View style={assignStyles.radioButtonSelected} />}
+      </View>
+      <Text style={assignStyles.optionLabel}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={confirmStyles.overlay}>
+        <View style={confirmStyles.dialog}>
+          <Text style={confirmStyles.title}>Assign Ticket</Text>
+
+          <ScrollView style={assignStyles.scroll}>
+            <Text style={assignStyles.groupTitle}>Team</Text>
+            {renderOption('no-team', 'No team', team === null, () => setTeam(null))}
+            {SUPPORT_TEAMS.map(teamName =>
+              renderOption(teamName, teamName, team === teamName, () => setTeam(teamName))
+            )}
+
+            <Text style={assignStyles.groupTitle}>Assignee</Text>
+            {loadingAgents ? (
+              <ActivityIndicator color="#3B4C80" size="small" />
+            ) : (
+              <>
+                {renderOption('unassigned', 'Unassigned', assigneeId === null, () => setAssigneeId(null))}
+                {agents.map(agent =>
+                  renderOption(agent.uid, agent.name || agent.email, assigneeId === agent.uid, () => setAssigneeId(agent.uid))
+                )}
+              </>
+            )}
+          </ScrollView>
+
+          <View style={confirmStyles.buttonContainer}>
+            <TouchableOpacity
+              style={[confirmStyles.button, confirmStyles.cancelButton]}
+              onPress={onCancel}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={confirmStyles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[confirmStyles.button, assignStyles.confirmButton]}
+              onPress={handleConfirm}
+              disabled={saving || loadingAgents}
+              activeOpacity={0.7}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={confirmStyles.confirmButtonText}>Assign</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const assignStyles = StyleSheet.create({
+  scroll: {
+    maxHeight: 360,
+    marginBottom: 24,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  radioButton: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  radioButtonSelected: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#3B4C80',
+  },
+  optionLabel: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  confirmButton: {
+    backgroundColor: '#3B4C80',
+  },
+});
+
+// Merge dialog for choosing, field by field, between the user's edits and changes made elsewhere
+const MergeDialog = ({
+  conflict,
+  saving,
+  onConfirm,
+  onCancel
+}: {
+  conflict: MergeConflict | null;
+  saving: boolean;
+  onConfirm: (choices: Partial<Record<EditableTicketField, ConflictChoice>>) => void;
+  onCancel: () => void;
+}) => {
+  const [choices, setChoices] = useState<Partial<Record<EditableTicketField, ConflictChoice>>>({});
+
+  // Every conflict starts out keeping the user's own value
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const renderChoice = (field: EditableTicketField, choice: ConflictChoice, label: string) => (
+    <TouchableOpacity
+      style={assignStyles.option}
+      onPress={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+      disabled={saving}
+      activeOpacity={0.7}
+    >
+      <View style={assignStyles.radioButton}>
+        {(choices[field] || 'mine') === choice && <View style={assignStyles.radioButtonSelected} />}
+      </View>
+      <Text style={assignStyles.optionLabel}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={conflict !== null}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={confirmStyles.overlay}>
+        <View style={[confirmStyles.dialog, mergeStyles.dialog]}>
+          <Text style={confirmStyles.title}>Resolve Conflicting Changes</Text>
+          <Text style={mergeStyles.intro}>
+            Someone else changed the same fields while you were editing. Choose which version to keep for each.
+          </Text>
+
+          <ScrollView style={assignStyles.scroll}>
+            {conflict?.conflicts.map(field => (
+              <View key={field} style={mergeStyles.field}>
+                <Text style={assignStyles.groupTitle}>{TICKET_FIELD_LABELS[field]}</Text>
+
+                <Text style={mergeStyles.versionLabel}>Original</Text>
+                <Text style={[mergeStyles.versionValue, mergeStyles.originalValue]}>
+                  {formatFieldValue(field, conflict.original)}
+                </Text>
+                <Text style={mergeStyles.versionLabel}>Yours</Text>
+                <Text style={mergeStyles.versionValue}>{formatFieldValue(field, conflict.mine)}</Text>
+                <Text style={mergeStyles.versionLabel}>Theirs</Text>
+                <Text style={mergeStyles.versionValue}>{formatFieldValue(field, conflict.theirs)}</Text>
+
+                <View style={mergeStyles.choices}>
+                  {renderChoice(field, 'mine', 'Keep mine')}
+                  {renderChoice(field, 'theirs', 'Use theirs')}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={confirmStyles.buttonContainer}>
+            <TouchableOpacity
+              style={[confirmStyles.button, confirmStyles.cancelButton]}
+              onPress={onCancel}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={confirmStyles.cancelButtonText}>Keep Editing</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[confirmStyles.button, assignStyles.confirmButton]}
+              onPress={() => onConfirm(choices)}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={confirmStyles.confirmButtonText}>Save Merged</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const mergeStyles = StyleSheet.create({
+  dialog: {
+    maxWidth: 520,
+    width: '100%',
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  field: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    paddingBottom: 12,
+    marginBottom: 12,
+  },
+  versionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    marginTop: 6,
+  },
+  versionValue: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  originalValue: {
+    color: '#9ca3af',
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 8,
+  },
+});
+
 export default function EditTicketScreen() {
-  const { user, userData } = useAuth();
+  const { user, userData, isAdmin, isAgent } = useAuth();
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, ownerId } = useLocalSearchParams<{ id: string; ownerId?: string }>();
+  // Admins open other users' tickets from the console; everyone else edits their own
+  const ticketOwnerId = ownerId || user?.uid;
+  // Submitters and administrators can undo edits
+  const canRevert = isAdmin || (!!user && ticketOwnerId === user.uid);
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [showAddDetails, setShowAddDetails] = useState(false);
   const [newNote, setNewNote] = useState('');
+  const [noteAttachments, setNoteAttachments] = useState<PendingAttachment[]>([]);
+  const [ccDraft, setCcDraft] = useState('');
   const [addingNote, setAddingNote] = useState(false);
-  const [originalFormData, setOriginalFormData] = useState<FormData | null>(null);
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [showAssignDialog, setShowAssignDialog] = useState(false);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loadingAgents, setLoadingAgents] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const [originalFormData, setOriginalFormData] = useState<TicketFormData | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [changedWhileEditing, setChangedWhileEditing] = useState(false);
+  const [mergeConflict, setMergeConflict] = useState<MergeConflict | null>(null);
+  const [revertIndex, setRevertIndex] = useState<number | null>(null);
+  const [reverting, setReverting] = useState(false);
+
+  // The note box is kept as a draft per ticket until the note is added
+  const {
+    offeredDraft: offeredNoteDraft,
+    resumeDraft: resumeNoteDraft,
+    dismissDraft: dismissNoteDraft,
+    clearDraft: clearNoteDraft,
+  } = useDraft(
+    user && id && ticketOwnerId ? getDraftKey(user.uid, `note/${ticketOwnerId}/${id}`) : null,
+    newNote,
+    isNoteDraftEmpty
+  );
   
-  const [formData, setFormData] = useState<FormData>({
+  const [formData, setFormData] = useState<TicketFormData>({
     name: '',
     phone: '',
     email: '',
-    ccEmail: '',
+    ccEmails: [],
     title: '',
     details: '',
-    category: 'Service',
+    category: '',
+    customFields: {},
+    priority: DEFAULT_PRIORITY,
     status: 'New',
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<IntakeErrors>({});
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
 
-  // Load ticket data
   useEffect(() => {
-    const loadTicket = async () => {
-      if (!user || !id) return;
+    getCategories()
+      .then(setCategories)
+      .finally(() => setCategoriesLoading(false));
+  }, []);
 
-      try {
-        const ticketRef = doc(db, 'users', user.uid, 'tickets', id);
-        const ticketDoc = await getDoc(ticketRef);
+  // A ticket can stay in a category that has since been deactivated
+  const selectableCategories = categories.filter(
+    category => category.active || category.name === originalFormData?.category
+  );
 
-        if (ticketDoc.exists()) {
-          const ticketData = { id: ticketDoc.id, ...ticketDoc.data() } as Ticket;
-          setTicket(ticketData);
-          
-          const initialFormData = {
-            name: ticketData.name,
-            phone: ticketData.phone,
-            email: ticketData.email,
-            ccEmail: ticketData.ccEmail,
-            title: ticketData.title,
-            details: ticketData.details,
-            category: ticketData.category,
-            status: ticketData.status,
-          };
-          
-          setFormData(initialFormData);
-          setOriginalFormData(initialFormData);
-          
-          console.log('Ticket loaded successfully:', {
-            ticketId: ticketData.ticketId || ticketData.id.substring(0, 8),
-            title: ticketData.title,
-            originalData: initialFormData
-          });
-        } else {
-          Alert.alert('Error', 'Ticket not found');
-          router.back();
-        }
-      } catch (error) {
-        console.error('Error loading ticket:', error);
-        Alert.alert('Error', 'Failed to load ticket');
+  const categoryFields = getCategoryFields(categories, formData.category);
+
+  // Answers to questions the category no longer asks are kept and shown read-only
+  const otherCustomFields = formData.category === originalFormData?.category
+    ? Object.entries(ticket?.customFields || {}).filter(([key]) => !categoryFields.some(field => field.key === key))
+    : [];
+
+  // Mirrors the form for the ticket subscription, which outlives any one render
+  const editStateRef = useRef<{ originalFormData: TicketFormData | null; hasFormChanges: () => boolean }>({
+    originalFormData,
+    hasFormChanges: () => false,
+  });
+
+  // Follow the ticket live, so notes and changes made elsewhere show up without reopening it
+  useEffect(() => {
+    if (!user || !id || !ticketOwnerId) return;
+
+    let loaded = false;
+
+    const unsubscribe = ticketRepository.subscribeToTicket({ ownerId: ticketOwnerId, id }, (ticketData) => {
+      if (!ticketData) {
+        Alert.alert('Error', loaded ? 'This ticket has been deleted' : 'Ticket not found');
         router.back();
-      } finally {
+        return;
+      }
+
+      setTicket(ticketData);
+      const serverFormData = toTicketFormData(ticketData);
+      const { originalFormData: loadedFormData, hasFormChanges: formIsDirty } = editStateRef.current;
+
+      if (!loadedFormData || !formIsDirty()) {
+        // Nothing unsaved, so the form simply follows the ticket
+        setFormData(serverFormData);
+        setOriginalFormData(serverFormData);
+        setChangedWhileEditing(false);
+      } else {
+        // Keep the user's edits; status isn't edited in the form, so it always follows the ticket
+        setFormData(prev => ({ ...prev, status: serverFormData.status }));
+        if (getChangedFields(serverFormData, loadedFormData).length > 0) {
+          setChangedWhileEditing(true);
+        }
+      }
+
+      if (!loaded) {
+        loaded = true;
         setLoading(false);
+        console.log('Ticket loaded successfully:', {
+          ticketId: ticketData.ticketId || ticketData.id.substring(0, 8),
+          title: ticketData.title,
+        });
       }
-    };
+    }, (error) => {
+      console.error('Error loading ticket:', error);
+      Alert.alert('Error', 'Failed to load ticket');
+      router.back();
+    });
 
-    loadTicket();
-  }, [user, id, router]);
+    return unsubscribe;
+  }, [user, id, ticketOwnerId, router]);
 
   // Check if form has changes
   const hasFormChanges = () => {
@@ -258,35 +634,34 @@ export default function EditTicketScreen() {
       console.log('❌ No original form data available');
       return false;
     }
-    
-    const changes = {
-      name: formData.name !== originalFormData.name,
-      phone: formData.phone !== originalFormData.phone,
-      email: formData.email !== originalFormData.email,
-      ccEmail: formData.ccEmail !== originalFormData.ccEmail,
-      title: formData.title !== originalFormData.title,
-      details: formData.details !== originalFormData.details,
-      category: formData.category !== originalFormData.category,
-    };
-    
-    const hasChanges = Object.values(changes).some(changed => changed);
-    
-    console.log('🔍 Form changes analysis:', {
-      changes,
-      hasChanges,
-      currentTitle: formData.title,
-      originalTitle: originalFormData.title,
-      currentDetails: formData.details,
-      originalDetails: originalFormData.details
-    });
-    
+
+    const changedFields = getChangedFields(formData, originalFormData);
+    const hasChanges = changedFields.length > 0 || ccDraft.trim().length > 0;
+
+    console.log('🔍 Form changes analysis:', { changedFields, hasChanges });
+
     return hasChanges;
   };
 
+  editStateRef.current = { originalFormData, hasFormChanges };
+
+  // Drops the unsaved edits and shows the ticket as it is now
+  const handleLoadLatest = () => {
+    if (!ticket) return;
+
+    const serverFormData = toTicketFormData(ticket);
+    setFormData(serverFormData);
+    setOriginalFormData(serverFormData);
+    setCcDraft('');
+    setErrors({});
+    setCustomFieldErrors({});
+    setChangedWhileEditing(false);
+  };
+
   // Check if there are any unsaved changes (form changes or new note)
   const hasUnsavedChanges = () => {
     const formChanges = hasFormChanges();
-    const noteChanges = newNote.trim().length > 0;
+    const noteChanges = newNote.trim().length > 0 || noteAttachments.length > 0;
     
     console.log('📝 Unsaved changes check:', {
       formChanges,
@@ -317,8 +692,10 @@ export default function EditTicketScreen() {
       newErrors.email = 'Please enter a valid email address';
     }
 
-    if (formData.ccEmail.trim() && !/\S+@\S+\.\S+/.test(formData.ccEmail)) {
-      newErrors.ccEmail = 'Please enter a valid email address';
+    // Addresses still in the text box count too, so nothing typed is silently dropped
+    const invalidCcEmails = findInvalidEmails([...formData.ccEmails, ...parseEmailList(ccDraft)]);
+    if (invalidCcEmails.length > 0) {
+      newErrors.ccEmails = `Please enter valid email addresses (${invalidCcEmails.join(', ')})`;
     }
 
     if (!formData.title.trim()) {
@@ -329,86 +706,132 @@ export default function EditTicketScreen() {
       newErrors.details = 'Request details are required';
     }
 
+    const newCustomFieldErrors = !originalFormData || isIntakeEdited(formData, originalFormData)
+      ? validateIntakeValues(categoryFields, formData.customFields)
+      : {};
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setCustomFieldErrors(newCustomFieldErrors);
+    return Object.keys(newErrors).length === 0 && Object.keys(newCustomFieldErrors).length === 0;
   };
 
-  const handleSave = async () => {
-    if (!validateForm() || !user || !id) return;
+  // Answers to questions the category still asks come from the form; the rest are kept as stored
+  const storeCustomFields = (edited: TicketFormData, current: Ticket) => {
+    const fields = getCategoryFields(categories, edited.category);
+    const keptAnswers = edited.category === current.category
+      ? Object.entries(current.customFields || {}).filter(([key]) => !fields.some(field => field.key === key))
+      : [];
+
+    return {
+      ...Object.fromEntries(keptAnswers),
+      ...toStoredIntakeValues(fields, edited.customFields),
+    };
+  };
+
+  // Saves the edits made since the form showed `base`; on a conflict the merge dialog opens instead
+  const saveEdits = async (base: TicketFormData, edited: TicketFormData) => {
+    if (!user || !id || !ticketOwnerId) return;
 
     setSaving(true);
 
     try {
-      const ticketRef = doc(db, 'users', user.uid, 'tickets', id);
-      
-      // Check if any field has changed (excluding status since it's not editable)
-      const hasChanges = hasFormChanges();
-
-      if (hasChanges) {
-        // Only update the ticket fields and modification time
-        // Do NOT add any history entry automatically
-        await updateDoc(ticketRef, {
-          name: formData.name,
-          phone: formData.phone,
-          email: formData.email,
-          ccEmail: formData.ccEmail,
-          title: formData.title,
-          details: formData.details,
-          category: formData.category,
-          // status is intentionally excluded to keep it unchanged
-          modifiedAt: serverTimestamp(),
-          // Do NOT add any history entry here
-        });
+      const ticketRef: TicketRef = { ownerId: ticketOwnerId, id };
+      const author = userData?.name || user.displayName || 'User';
+      const editEntry = await saveTicketEdits(ticketRepository, ticketRef, base, edited, author, storeCustomFields);
 
-        // Update original form data to reflect saved state
-        setOriginalFormData({ ...formData });
-        
-        console.log('✅ Ticket saved successfully');
-        
-        // Navigate back to dashboard after successful save
-        router.back();
+      // Update original form data to reflect saved state
+      setOriginalFormData(edited);
+
+      console.log('✅ Ticket saved successfully:', editEntry?.changes?.map(change => change.field));
+
+      // Navigate back to dashboard after successful save
+      router.back();
+    } catch (error) {
+      if (error instanceof TicketEditConflictError) {
+        console.log('⚠️ Save conflicts with changes made elsewhere:', error.conflicts);
+        setMergeConflict({ conflicts: error.conflicts, original: base, mine: edited, theirs: error.latest });
       } else {
-        Alert.alert('No Changes', 'No changes were made to the ticket');
+        console.error('Error updating ticket:', error);
+        Alert.alert('Error', 'Failed to update ticket. Please try again.');
       }
-    } catch (error) {
-      console.error('Error updating ticket:', error);
-      Alert.alert('Error', 'Failed to update ticket. Please try again.');
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSave = async () => {
+    if (!validateForm() || !user || !originalFormData) return;
+
+    // Check if any field has changed (excluding status since it's not editable)
+    if (!hasFormChanges()) {
+      Alert.alert('No Changes', 'No changes were made to the ticket');
+      return;
+    }
+
+    await saveEdits(originalFormData, {
+      ...formData,
+      ccEmails: normalizeCcRecipients(
+        [...formData.ccEmails, ...parseEmailList(ccDraft)],
+        formData.email.trim()
+      ),
+    });
+  };
+
+  const handleConfirmMerge = async (choices: Partial<Record<EditableTicketField, ConflictChoice>>) => {
+    if (!mergeConflict) return;
+
+    const { original, mine, theirs } = mergeConflict;
+    const merged = mergeFormData(original, mine, theirs, choices);
+
+    // The form now starts from the latest version, with the merged values as the user's edits
+    setFormData(merged);
+    setOriginalFormData(theirs);
+    setCcDraft('');
+    setChangedWhileEditing(false);
+    setMergeConflict(null);
+
+    await saveEdits(theirs, merged);
+  };
+
+  const handleCancelMerge = () => {
+    setMergeConflict(null);
+    setChangedWhileEditing(true);
+  };
+
   const handleAddNote = async () => {
-    if (!newNote.trim() || !user || !id) return;
+    if ((!newNote.trim() && noteAttachments.length === 0) || !user || !id || !ticketOwnerId) return;
 
     setAddingNote(true);
 
     try {
-      const ticketRef = doc(db, 'users', user.uid, 'tickets', id);
+      const ticketRef: TicketRef = { ownerId: ticketOwnerId, id };
+      const author = userData?.name || user.displayName || 'User';
+
+      const uploadedAttachments = await uploadAttachments(
+        attachmentStorage,
+        noteAttachments,
+        { ownerId: ticketOwnerId, ticketDocId: id },
+        author
+      );
       
       const noteHistoryEntry: HistoryEntry = {
         id: Date.now().toString(),
-        author: userData?.name || user.displayName || 'User',
+        author,
         timestamp: new Date(),
         notes: newNote.trim(),
         type: 'note',
+        ...(uploadedAttachments.length > 0 && { attachments: uploadedAttachments }),
       };
 
-      await updateDoc(ticketRef, {
-        modifiedAt: serverTimestamp(),
-        history: arrayUnion(noteHistoryEntry),
-      });
+      // A note from an agent on someone else's ticket is the first response for SLA purposes
+      const isFirstResponse = isAgent && ticketOwnerId !== user.uid && !ticket?.firstRespondedAt;
 
-      // Update local state
-      if (ticket) {
-        const updatedTicket = {
-          ...ticket,
-          history: [...(ticket.history || []), noteHistoryEntry],
-        };
-        setTicket(updatedTicket);
-      }
+      // The ticket subscription shows the new note
+      await ticketRepository.addNote(ticketRef, noteHistoryEntry, { firstResponse: isFirstResponse });
 
+      await clearNoteDraft();
       setNewNote('');
+      setNoteAttachments([]);
       setShowAddDetails(false);
       Alert.alert('Success', 'Note added successfully');
     } catch (error) {
@@ -419,6 +842,108 @@ export default function EditTicketScreen() {
     }
   };
 
+  const handleResumeNoteDraft = () => {
+    const note = resumeNoteDraft();
+    if (!note) return;
+
+    setNewNote(note);
+    setShowAddDetails(true);
+  };
+
+  // Fields the edit being reverted changed that later edits changed again, so the dialog can warn about them
+  const revertLaterEdits = revertIndex !== null ? getLaterEditedFields(ticket?.history || [], revertIndex) : [];
+  const revertMessage = revertLaterEdits.length > 0
+    ? `Restore the values this edit replaced? ${revertLaterEdits.map(field => TICKET_FIELD_LABELS[field]).join(', ')} ${revertLaterEdits.length === 1 ? 'was' : 'were'} changed again by a later edit, and reverting overwrites that change too. The revert is added to the history.`
+    : 'Restore the values this edit replaced? Other fields are left as they are, and the revert is added to the history.';
+
+  const handleConfirmRevert = async () => {
+    if (revertIndex === null || !user || !id || !ticketOwnerId) return;
+
+    const index = revertIndex;
+    setRevertIndex(null);
+    setReverting(true);
+
+    try {
+      const author = userData?.name || user.displayName || 'User';
+      const revertEntry = await revertTicketToEntry(
+        ticketRepository,
+        { ownerId: ticketOwnerId, id },
+        index,
+        author,
+        revertLaterEdits
+      );
+
+      if (revertEntry) {
+        console.log('✅ Ticket reverted:', revertEntry.notes);
+      } else {
+        Alert.alert('Nothing to Revert', 'These fields already have the values from before this edit.');
+      }
+    } catch (error) {
+      if (error instanceof TicketRevertConflictError) {
+        // Another edit to the same fields arrived after the dialog was confirmed; ask again
+        console.log('⚠️ Revert would overwrite newer edits:', error.fields);
+        setRevertIndex(index);
+      } else {
+        console.error('Error reverting ticket:', error);
+        Alert.alert('Error', 'Failed to revert the ticket. Please try again.');
+      }
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const handleChangeStatus = async (nextStatus: TicketStatus) => {
+    if (!isAdmin || !user || !id || !ticketOwnerId) return;
+
+    setChangingStatus(true);
+
+    try {
+      const author = userData?.name || user.displayName || 'Administrator';
+      const statusEntry = await changeTicketStatus(ticketRepository, { ownerId: ticketOwnerId, id }, nextStatus, author);
+
+      console.log('✅ Ticket status changed:', statusEntry.notes);
+    } catch (error) {
+      console.error('Error changing ticket status:', error);
+      if (error instanceof InvalidStatusTransitionError) {
+        Alert.alert('Status Not Changed', `${error.message} The ticket may have been updated by someone else.`);
+      } else {
+        Alert.alert('Error', 'Failed to change status. Please try again.');
+      }
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handleOpenAssignDialog = async () => {
+    if (!isAdmin) return;
+
+    setShowAssignDialog(true);
+
+    // Agents are loaded lazily, only once the dialog is first opened
+    if (agents.length === 0) {
+      setLoadingAgents(true);
+      setAgents(await getAgents());
+      setLoadingAgents(false);
+    }
+  };
+
+  const handleAssign = async (assignment: TicketAssignment) => {
+    if (!isAdmin || !user || !id || !ticketOwnerId) return;
+
+    setAssigning(true);
+
+    try {
+      const author = userData?.name || user.displayName || 'Administrator';
+      await assignTicket(ticketRepository, { ownerId: ticketOwnerId, id }, assignment, author);
+      setShowAssignDialog(false);
+    } catch (error) {
+      console.error('Error assigning ticket:', error);
+      Alert.alert('Error', 'Failed to assign ticket. Please try again.');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
   const handleBackPress = () => {
     console.log('🔙 BACK BUTTON PRESSED at', new Date().toISOString());
     
@@ -439,6 +964,7 @@ export default function EditTicketScreen() {
     setShowConfirmDialog(false);
     // Clear any unsaved state before navigating
     setNewNote('');
+    setNoteAttachments([]);
     setShowAddDetails(false);
     router.back();
   };
@@ -449,7 +975,14 @@ export default function EditTicketScreen() {
     // Do nothing - stay on the current page
   };
 
-  const updateFormData = (field: keyof FormData, value: string) => {
+  const updateCustomField = (key: string, value: string) => {
+    setFormData(prev => ({ ...prev, customFields: { ...prev.customFields, [key]: value } }));
+    if (customFieldErrors[key]) {
+      setCustomFieldErrors(prev => ({ ...prev, [key]: undefined }));
+    }
+  };
+
+  const updateFormData = (field: keyof TicketFormData, value: string) => {
     console.log(`📝 Updating ${field}:`, {
       from: formData[field],
       to: value,
@@ -478,29 +1011,11 @@ export default function EditTicketScreen() {
     }
   };
 
-  const getDisplayTicketId = () => {
-    if (ticket?.ticketId) {
-      return ticket.ticketId;
-    }
-    return ticket?.id.substring(0, 8).toUpperCase() || '';
-  };
-
-  const getStatusBadgeStyle = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'new':
-        return { backgroundColor: '#dbeafe', color: '#1e40af' };
-      case 'in review':
-        return { backgroundColor: '#fef3c7', color: '#92400e' };
-      case 'work in progress':
-        return { backgroundColor: '#ecfdf5', color: '#065f46' };
-      case 'resolved':
-        return { backgroundColor: '#f3e8ff', color: '#7c3aed' };
-      case 'closed':
-        return { backgroundColor: '#f3f4f6', color: '#374151' };
-      default:
-        return { backgroundColor: '#f3f4f6', color: '#374151' };
-    }
-  };
+  // Attachments added with notes are shown alongside their history entry instead
+  const noteAttachmentIds = new Set(
+    (ticket?.history || []).flatMap(entry => (entry.attachments || []).map(attachment => attachment.id))
+  );
+  const requestAttachments = (ticket?.attachments || []).filter(attachment => !noteAttachmentIds.has(attachment.id));
 
   if (loading) {
     return (
@@ -534,7 +1049,12 @@ export default function EditTicketScreen() {
         >
           <ArrowLeft size={20} color="#374151" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Edit Ticket - {getDisplayTicketId()}</Text>
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle}>Edit Ticket - {ticket ? getDisplayTicketId(ticket) : ''}</Text>
+          {ticket?.ticketIdAliases && ticket.ticketIdAliases.length > 0 && (
+            <Text style={styles.headerSubtitle}>Previously {ticket.ticketIdAliases.join(', ')}</Text>
+          )}
+        </View>
         <TouchableOpacity 
           style={[styles.saveButton, saving && styles.saveButtonDisabled]}
           onPress={handleSave}
@@ -551,6 +1071,22 @@ export default function EditTicketScreen() {
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.form}>
+          {changedWhileEditing && (
+            <View style={styles.changedBanner}>
+              <Text style={styles.changedBannerText}>
+                This ticket was changed while you were editing. Your edits haven&apos;t been saved yet.
+              </Text>
+              <View style={styles.changedBannerActions}>
+                <TouchableOpacity onPress={handleLoadLatest} activeOpacity={0.7}>
+                  <Text style={styles.changedBannerAction}>DISCARD MY EDITS</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setChangedWhileEditing(false)} activeOpacity={0.7}>
+                  <Text style={styles.changedBannerAction}>KEEP EDITING</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           {/* Personal Information Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Personal Information</Text>
@@ -608,14 +1144,20 @@ export default function EditTicketScreen() {
               <Text style={styles.label}>
                 Other email addresses to be included in the status updates
               </Text>
-              <TextInput
-                style={styles.input}
-                value={formData.ccEmail}
-                onChangeText={(value) => updateFormData('ccEmail', value)}
+              <EmailChipInput
+                value={formData.ccEmails}
+                onChange={(ccEmails) => {
+                  setFormData(prev => ({ ...prev, ccEmails }));
+                  if (errors.ccEmails) {
+                    setErrors(prev => ({ ...prev, ccEmails: undefined }));
+                  }
+                }}
+                draft={ccDraft}
+                onDraftChange={setCcDraft}
+                excludeEmail={formData.email}
+                error={errors.ccEmails}
                 placeholder="Enter additional email addresses"
-                keyboardType="email-address"
-                autoCapitalize="none"
-                editable={!saving}
+                disabled={saving}
               />
             </View>
           </View>
@@ -642,45 +1184,122 @@ export default function EditTicketScreen() {
               <Text style={styles.label}>
                 Request Category <Text style={styles.required}>*</Text>
               </Text>
+              <CategoryPicker
+                categories={selectableCategories}
+                value={formData.category}
+                onChange={(category) => updateFormData('category', category)}
+                loading={categoriesLoading}
+                disabled={saving}
+              />
+            </View>
+
+            <IntakeFieldInputs
+              fields={categoryFields}
+              values={formData.customFields}
+              errors={customFieldErrors}
+              onChange={updateCustomField}
+              disabled={saving}
+            />
+
+            {otherCustomFields.length > 0 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Other details</Text>
+                {otherCustomFields.map(([key, value]) => (
+                  <Text key={key} style={styles.statusHint}>
+                    {key}: {String(value)}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Priority <Text style={styles.required}>*</Text>
+              </Text>
               <View style={styles.radioGroup}>
-                <TouchableOpacity
-                  style={styles.radioOption}
-                  onPress={() => updateFormData('category', 'Service')}
-                  disabled={saving}
-                  activeOpacity={0.7}
-                >
-                  <View style={styles.radioButton}>
-                    {formData.category === 'Service' && <View style={styles.radioButtonSelected} />}
-                  </View>
-                  <Text style={styles.radioLabel}>Service</Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={styles.radioOption}
-                  onPress={() => updateFormData('category', 'Technical')}
-                  disabled={saving}
-                  activeOpacity={0.7}
-                >
-                  <View style={styles.radioButton}>
-                    {formData.category === 'Technical' && <View style={styles.radioButtonSelected} />}
-                  </View>
-                  <Text style={styles.radioLabel}>Technical</Text>
-                </TouchableOpacity>
+                {TICKET_PRIORITIES.map(priority => (
+                  <TouchableOpacity
+                    key={priority}
+                    style={styles.radioOption}
+                    onPress={() => updateFormData('priority', priority)}
+                    disabled={saving}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.radioButton}>
+                      {formData.priority === priority && <View style={styles.radioButtonSelected} />}
+                    </View>
+                    <Text style={styles.radioLabel}>{priority}</Text>
+                  </TouchableOpacity>
+                ))}
               </View>
+              {ticket.firstResponseDueAt && ticket.resolutionDueAt && (
+                <Text style={styles.statusHint}>
+                  First response due {formatDate(ticket.firstResponseDueAt)} · Resolution due {formatDate(ticket.resolutionDueAt)}
+                </Text>
+              )}
             </View>
 
             <View style={styles.inputGroup}>
               <Text style={styles.label}>
-                Status <Text style={styles.disabledText}>(Read Only)</Text>
+                Status {!isAdmin && <Text style={styles.disabledText}>(Read Only)</Text>}
               </Text>
               <View style={[styles.statusDisplay, getStatusBadgeStyle(formData.status)]}>
                 <Text style={[styles.statusDisplayText, { color: getStatusBadgeStyle(formData.status).color }]}>
                   {formData.status}
                 </Text>
               </View>
-              <Text style={styles.statusHint}>
-                Status can only be changed by administrators
-              </Text>
+              {isAdmin ? (
+                getAllowedTransitions(formData.status).length > 0 ? (
+                  <View style={styles.statusActions}>
+                    {getAllowedTransitions(formData.status).map(transition => (
+                      <TouchableOpacity
+                        key={transition.to}
+                        style={[styles.statusActionButton, changingStatus && styles.statusActionButtonDisabled]}
+                        onPress={() => handleChangeStatus(transition.to)}
+                        disabled={changingStatus || saving}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={styles.statusActionText}>{transition.label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                    {changingStatus && <ActivityIndicator color="#3B4C80" size="small" />}
+                  </View>
+                ) : (
+                  <Text style={styles.statusHint}>
+                    This ticket is {formData.status.toLowerCase()} and can no longer change status
+                  </Text>
+                )
+              ) : (
+                <Text style={styles.statusHint}>
+                  Status can only be changed by administrators
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Assignment</Text>
+              <View style={styles.assignmentRow}>
+                <View style={styles.assignmentInfo}>
+                  <Text style={styles.assignmentText}>
+                    Assignee: {ticket.assigneeName || 'Unassigned'}
+                  </Text>
+                  <Text style={styles.assignmentText}>
+                    Team: {ticket.team || 'None'}
+                  </Text>
+                </View>
+                {isAdmin && (
+                  <TouchableOpacity
+                    style={styles.statusActionButton}
+                    onPress={handleOpenAssignDialog}
+                    disabled={saving || assigning}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.statusActionText}>
+                      {ticket.assigneeId || ticket.team ? 'Reassign' : 'Assign'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
 
             <View style={styles.inputGroup}>
@@ -701,6 +1320,14 @@ export default function EditTicketScreen() {
             </View>
           </View>
 
+          {/* Attachments submitted with the request */}
+          {requestAttachments.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Attachments</Text>
+              <AttachmentList attachments={requestAttachments} />
+            </View>
+          )}
+
           {/* History Section */}
           <View style={styles.section}>
             <View style={styles.historyHeader}>
@@ -716,6 +1343,22 @@ export default function EditTicketScreen() {
               </TouchableOpacity>
             </View>
 
+            {offeredNoteDraft && (
+              <View style={styles.changedBanner}>
+                <Text style={styles.changedBannerText}>
+                  You have an unsent note from {formatDate(offeredNoteDraft.savedAt)}.
+                </Text>
+                <View style={styles.changedBannerActions}>
+                  <TouchableOpacity onPress={dismissNoteDraft} activeOpacity={0.7}>
+                    <Text style={styles.changedBannerAction}>DISCARD</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={handleResumeNoteDraft} activeOpacity={0.7}>
+                    <Text style={styles.changedBannerAction}>RESUME DRAFT</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
             {showAddDetails && (
               <View style={styles.addDetailsContainer}>
                 <Text style={styles.label}>Notes</Text>
@@ -732,12 +1375,20 @@ export default function EditTicketScreen() {
                   textAlignVertical="top"
                   editable={!addingNote}
                 />
+                <View style={styles.noteAttachments}>
+                  <AttachmentPicker
+                    value={noteAttachments}
+                    onChange={setNoteAttachments}
+                    disabled={addingNote}
+                  />
+                </View>
                 <View style={styles.noteActions}>
                   <TouchableOpacity
                     style={styles.cancelNoteButton}
                     onPress={() => {
                       setShowAddDetails(false);
                       setNewNote('');
+                      setNoteAttachments([]);
                     }}
                     disabled={addingNote}
                     activeOpacity={0.7}
@@ -747,7 +1398,7 @@ export default function EditTicketScreen() {
                   <TouchableOpacity
                     style={[styles.saveNoteButton, addingNote && styles.saveNoteButtonDisabled]}
                     onPress={handleAddNote}
-                    disabled={addingNote || !newNote.trim()}
+                    disabled={addingNote || (!newNote.trim() && noteAttachments.length === 0)}
                     activeOpacity={0.7}
                   >
                     {addingNote ? (
@@ -768,7 +1419,36 @@ export default function EditTicketScreen() {
                       <Text style={styles.historyAuthor}>{entry.author}</Text>
                       <Text style={styles.historyDate}>{formatDate(entry.timestamp)}</Text>
                     </View>
-                    <Text style={styles.historyNotes}>{entry.notes}</Text>
+                    {!!entry.notes && (
+                      <Text style={[
+                        styles.historyNotes,
+                        entry.type !== 'note' && styles.historyStatusNotes,
+                      ]}>
+                        {entry.notes}
+                      </Text>
+                    )}
+                    {entry.changes && entry.changes.length > 0 && (
+                      <View style={styles.changeList}>
+                        {entry.changes.map(change => (
+                          <View key={change.field} style={styles.changeRow}>
+                            <Text style={styles.changeLabel}>{getFieldLabel(change.field)}</Text>
+                            <Text style={styles.changeFrom}>{formatChangeValue(change.from)}</Text>
+                            <Text style={styles.changeTo}>{formatChangeValue(change.to)}</Text>
+                          </View>
+                        ))}
+                        {canRevert && (
+                          <TouchableOpacity
+                            style={styles.revertButton}
+                            onPress={() => setRevertIndex(index)}
+                            disabled={saving || reverting}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={styles.revertButtonText}>REVERT TO THIS VERSION</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    )}
+                    {entry.attachments && <AttachmentList attachments={entry.attachments} />}
                   </View>
                 ))
               ) : (
@@ -779,14 +1459,45 @@ export default function EditTicketScreen() {
         </View>
       </ScrollView>
 
+      {/* Assignment Dialog */}
+      <AssignmentDialog
+        visible={showAssignDialog}
+        agents={agents}
+        loadingAgents={loadingAgents}
+        initialAssigneeId={ticket.assigneeId || null}
+        initialTeam={ticket.team || null}
+        saving={assigning}
+        onConfirm={handleAssign}
+        onCancel={() => setShowAssignDialog(false)}
+      />
+
+      {/* Merge Dialog */}
+      <MergeDialog
+        conflict={mergeConflict}
+        saving={saving}
+        onConfirm={handleConfirmMerge}
+        onCancel={handleCancelMerge}
+      />
+
       {/* Custom Confirmation Dialog */}
       <ConfirmationDialog
         visible={showConfirmDialog}
         title="Discard Changes"
         message="You have unsaved changes. Are you sure you want to leave without saving?"
+        confirmText="Leave"
         onConfirm={handleConfirmLeave}
         onCancel={handleCancelLeave}
       />
+
+      {/* Revert Confirmation Dialog */}
+      <ConfirmationDialog
+        visible={revertIndex !== null}
+        title="Revert to This Version"
+        message={revertMessage}
+        confirmText="Revert"
+        onConfirm={handleConfirmRevert}
+        onCancel={() => setRevertIndex(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -818,13 +1529,21 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e5e7eb',
   },
+  headerTitleContainer: {
+    flex: 1,
+    marginHorizontal: 16,
+  },
   headerTitle: {
     fontSize: 18,
     fontWeight: '600',
     color: '#374151',
-    flex: 1,
     textAlign: 'center',
-    marginHorizontal: 16,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 2,
   },
   saveButton: {
     backgroundColor: '#3B4C80',
@@ -957,6 +1676,43 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  statusActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  statusActionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#3B4C80',
+    backgroundColor: '#f0f4ff',
+  },
+  statusActionButtonDisabled: {
+    opacity: 0.6,
+  },
+  statusActionText: {
+    color: '#3B4C80',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  assignmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  assignmentInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  assignmentText: {
+    fontSize: 14,
+    color: '#374151',
+  },
   statusHint: {
     fontSize: 12,
     color: '#6b7280',
@@ -991,6 +1747,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e5e7eb',
   },
+  noteAttachments: {
+    marginTop: 12,
+  },
   noteActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -1054,6 +1813,48 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 20,
   },
+  historyStatusNotes: {
+    fontStyle: 'italic',
+    color: '#3B4C80',
+  },
+  changeList: {
+    marginTop: 8,
+    gap: 8,
+  },
+  changeRow: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#d1d5db',
+    paddingLeft: 10,
+    gap: 2,
+  },
+  changeLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+  },
+  changeFrom: {
+    fontSize: 14,
+    color: '#b91c1c',
+    textDecorationLine: 'line-through',
+  },
+  changeTo: {
+    fontSize: 14,
+    color: '#15803d',
+  },
+  revertButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#3B4C80',
+  },
+  revertButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B4C80',
+  },
   noHistoryText: {
     fontSize: 14,
     color: '#6b7280',
@@ -1076,4 +1877,28 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  changedBanner: {
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  changedBannerText: {
+    color: '#92400e',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  changedBannerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  changedBannerAction: {
+    color: '#92400e',
+    fontSize: 13,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
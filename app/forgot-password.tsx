@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { MailCheck } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function ForgotPasswordScreen() {
+  // The login screen passes along whatever email was already typed
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email || '');
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [errors, setErrors] = useState<{email?: string; general?: string}>({});
+
+  const { resetPassword } = useAuth();
+  const router = useRouter();
+
+  const validateForm = () => {
+    const newErrors: {email?: string} = {};
+
+    if (!email.trim()) {
+      newErrors.email = 'Email is required';
+    } else if (!/\S+@\S+\.\S+/.test(email.trim())) {
+      newErrors.email = 'Email is invalid';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSendLink = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    setErrors({});
+
+    try {
+      await resetPassword(email.trim());
+      setSentTo(email.trim());
+    } catch (error: any) {
+      console.log('Forgot password: Reset failed:', error.message);
+      setErrors({ general: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackToLogin = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/login');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Reset Password</Text>
+
+          <View style={styles.form}>
+            {sentTo ? (
+              <View style={styles.confirmation}>
+                <MailCheck size={40} color="#3B4C80" />
+                <Text style={styles.confirmationTitle}>Check your email</Text>
+                <Text style={styles.confirmationText}>
+                  If an account exists for {sentTo}, we have sent a link to reset its password.
+                  The link expires after an hour.
+                </Text>
+
+                <TouchableOpacity style={styles.primaryButton} onPress={handleBackToLogin}>
+                  <Text style={styles.primaryButtonText}>Back to Sign In</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity onPress={() => setSentTo(null)}>
+                  <Text style={styles.link}>Didn&apos;t get it? Send again</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <>
+                <Text style={styles.description}>
+                  Enter the email address you sign in with and we will send you a link to choose a new password.
+                </Text>
+
+                {errors.general && (
+                  <View style={styles.errorContainer}>
+                    <Text style={styles.generalErrorText}>{errors.general}</Text>
+                  </View>
+                )}
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.label}>Email address</Text>
+                  <TextInput
+                    style={[styles.input, errors.email && styles.inputError]}
+                    placeholder="Enter your email"
+                    value={email}
+                    onChangeText={setEmail}
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!loading}
+                  />
+                  {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+                  onPress={handleSendLink}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Send Reset Link</Text>
+                  )}
+                </TouchableOpacity>
+
+                <TouchableOpacity onPress={handleBackToLogin} disabled={loading}>
+                  <Text style={[styles.link, loading && styles.disabledLink]}>Back to Sign In</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    alignItems: 'center',
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '600',
+    color: '#3B4C80',
+    marginBottom: 40,
+  },
+  form: {
+    width: '100%',
+    backgroundColor: '#fff',
+    padding: 32,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  generalErrorText: {
+    color: '#dc2626',
+    fontSize: 14,
+    textAlign: 'center',
+    fontWeight: '500',
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#3B4C80',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginBottom: 24,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.7,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  link: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  disabledLink: {
+    opacity: 0.5,
+  },
+  confirmation: {
+    alignItems: 'center',
+  },
+  confirmationTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  confirmationText: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+});
@@ -108,6 +108,13 @@ export default function LoginScreen() {
                 editable={!loading}
               />
               {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+              <TouchableOpacity
+                style={styles.forgotPasswordLink}
+                onPress={() => router.push({ pathname: '/forgot-password', params: email ? { email } : {} })}
+                disabled={loading}
+              >
+                <Text style={[styles.signUpLink, loading && styles.disabledLink]}>Forgot password?</Text>
+              </TouchableOpacity>
             </View>
 
             <TouchableOpacity 
@@ -215,6 +222,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  forgotPasswordLink: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
   signInButton: {
     backgroundColor: '#3B4C80',
     borderRadius: 8,
@@ -1,10 +1,22 @@
+import AttachmentPicker from '@/components/AttachmentPicker';
+import CategoryPicker from '@/components/CategoryPicker';
+import IntakeFieldInputs from '@/components/IntakeFieldInputs';
+import EmailChipInput from '@/components/EmailChipInput';
 import { useAuth } from '@/contexts/AuthContext';
-import { db } from '@/lib/firebase';
-import { generateUserTicketId } from '@/lib/ticketUtils';
+import { useDraft } from '@/hooks/useDraft';
+import { attachmentStorage } from '@/lib/attachmentStorage';
+import { PendingAttachment, uploadAttachments } from '@/lib/attachments';
+import { findInvalidEmails, normalizeCcRecipients, parseEmailList } from '@/lib/ccRecipients';
+import { getDraftKey } from '@/lib/drafts';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import { IntakeErrors, IntakeFormValues, toStoredIntakeValues, validateIntakeValues } from '@/lib/intakeFields';
+import { getActiveCategories, getCategoryFields, TicketCategory } from '@/lib/ticketCategories';
+import { INITIAL_TICKET_STATUS } from '@/lib/ticketStatus';
+import { generateTicketId, TicketIdUnavailableError } from '@/lib/ticketUtils';
+import { DEFAULT_PRIORITY, TICKET_PRIORITIES, TicketPriority } from '@/shared/slaPolicy';
 import { useRouter } from 'expo-router';
-import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
 import { ArrowLeft, X } from 'lucide-react-native';
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -21,20 +33,34 @@ interface FormData {
   name: string;
   phone: string;
   email: string;
-  ccEmail: string;
+  ccEmails: string[];
   title: string;
   details: string;
-  category: 'Service' | 'Technical';
+  category: string;
+  priority: TicketPriority;
 }
 
+// What a saved draft of the request keeps. Attachments are left out, since picked
+// files may not be readable after the app restarts.
+interface RequestDraft {
+  formData: FormData;
+  customFields: IntakeFormValues;
+  ccDraft: string;
+}
+
+// Contact details come from the profile, so only what the user wrote makes a draft worth keeping
+const isRequestDraftEmpty = ({ formData, customFields }: RequestDraft) =>
+  !formData.title.trim() && !formData.details.trim() && !Object.values(customFields).some(value => value.trim());
+
 interface FormErrors {
   name?: string;
   phone?: string;
   email?: string;
-  ccEmail?: string;
+  ccEmails?: string;
   title?: string;
   details?: string;
   category?: string;
+  priority?: string;
 }
 
 export default function NewRequestScreen() {
@@ -42,18 +68,57 @@ export default function NewRequestScreen() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   
+  // Contact details start from the defaults saved on the profile screen
   const [formData, setFormData] = useState<FormData>({
     name: userData?.name || '',
-    phone: '',
+    phone: userData?.phone || '',
     email: userData?.email || '',
-    ccEmail: '',
+    ccEmails: userData?.defaultCcEmails || [],
     title: '',
     details: '',
-    category: 'Service',
+    category: '',
+    priority: DEFAULT_PRIORITY,
   });
 
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [customFields, setCustomFields] = useState<IntakeFormValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<IntakeErrors>({});
+
+  const categoryFields = getCategoryFields(categories, formData.category);
+
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [ccDraft, setCcDraft] = useState('');
+
   const [errors, setErrors] = useState<FormErrors>({});
 
+  const draftContents = useMemo<RequestDraft>(
+    () => ({ formData, customFields, ccDraft }),
+    [formData, customFields, ccDraft]
+  );
+  const { offeredDraft, resumeDraft, dismissDraft, clearDraft } = useDraft(
+    user ? getDraftKey(user.uid, 'new-request') : null,
+    draftContents,
+    isRequestDraftEmpty
+  );
+
+  // Requests can only be submitted once the address updates go to is confirmed
+  useEffect(() => {
+    if (userData && !userData.emailVerified) {
+      router.replace('/verify-email');
+    }
+  }, [userData, router]);
+
+  // Load the categories a request can be filed under, preselecting the first
+  useEffect(() => {
+    getActiveCategories()
+      .then(activeCategories => {
+        setCategories(activeCategories);
+        setFormData(prev => ({ ...prev, category: prev.category || activeCategories[0]?.name || '' }));
+      })
+      .finally(() => setCategoriesLoading(false));
+  }, []);
+
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
@@ -73,20 +138,29 @@ export default function NewRequestScreen() {
       newErrors.email = 'Please enter a valid email address';
     }
 
-    if (formData.ccEmail.trim() && !/\S+@\S+\.\S+/.test(formData.ccEmail)) {
-      newErrors.ccEmail = 'Please enter a valid email address';
+    // Addresses still in the text box count too, so nothing typed is silently dropped
+    const invalidCcEmails = findInvalidEmails([...formData.ccEmails, ...parseEmailList(ccDraft)]);
+    if (invalidCcEmails.length > 0) {
+      newErrors.ccEmails = `Please enter valid email addresses (${invalidCcEmails.join(', ')})`;
     }
 
     if (!formData.title.trim()) {
       newErrors.title = 'Request title is required';
     }
 
+    if (!categories.some(category => category.name === formData.category)) {
+      newErrors.category = 'Please choose a request category';
+    }
+
     if (!formData.details.trim()) {
       newErrors.details = 'Request details are required';
     }
 
+    const newCustomFieldErrors = validateIntakeValues(categoryFields, customFields);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setCustomFieldErrors(newCustomFieldErrors);
+    return Object.keys(newErrors).length === 0 && Object.keys(newCustomFieldErrors).length === 0;
   };
 
   const handleSubmit = async () => {
@@ -102,27 +176,51 @@ export default function NewRequestScreen() {
     setLoading(true);
 
     try {
-      const ticketId = await generateUserTicketId(formData.category, user.uid);
-      
-      const userTicketsRef = collection(db, 'users', user.uid, 'tickets');
-      
-      const currentTime = serverTimestamp();
+      // Reserve the document first so attachments can be stored under the ticket
+      const ticketRef = ticketRepository.newRef(user.uid);
+
+      // Upload before taking a ticket number so a failed upload doesn't burn one
+      const uploadedAttachments = await uploadAttachments(
+        attachmentStorage,
+        attachments,
+        { ownerId: user.uid, ticketDocId: ticketRef.id },
+        formData.name.trim()
+      );
+
+      // If no number can be reserved, the ticket is saved as provisional and
+      // the reconciliation job assigns its number shortly afterwards
+      let ticketId: string | null = null;
+      try {
+        ticketId = await generateTicketId(formData.category);
+      } catch (error) {
+        if (!(error instanceof TicketIdUnavailableError)) {
+          throw error;
+        }
+        console.warn('Saving ticket without a number:', error);
+      }
       
-      await addDoc(userTicketsRef, {
+      await ticketRepository.create(ticketRef, {
         ticketId: ticketId,
+        ticketIdAliases: [],
+        ticketIdProvisional: ticketId === null,
         name: formData.name.trim(),
         phone: formData.phone.trim(),
         email: formData.email.trim(),
-        ccEmail: formData.ccEmail.trim(),
+        ccEmails: normalizeCcRecipients(
+          [...formData.ccEmails, ...parseEmailList(ccDraft)],
+          formData.email.trim()
+        ),
         title: formData.title.trim(),
         details: formData.details.trim(),
         category: formData.category,
-        status: 'New',
-        createdAt: currentTime,
-        modifiedAt: currentTime,
+        customFields: toStoredIntakeValues(categoryFields, customFields),
+        priority: formData.priority,
+        status: INITIAL_TICKET_STATUS,
+        attachments: uploadedAttachments,
         history: [],
       });
 
+      await clearDraft();
       router.back();
     } catch (error) {
       console.error('Error submitting request:', error);
@@ -132,6 +230,17 @@ export default function NewRequestScreen() {
     }
   };
 
+  const handleResumeDraft = () => {
+    const draft = resumeDraft();
+    if (!draft) return;
+
+    setFormData(draft.formData);
+    setCustomFields(draft.customFields);
+    setCcDraft(draft.ccDraft);
+    setErrors({});
+    setCustomFieldErrors({});
+  };
+
   const handleGoBack = () => {
     router.back();
   };
@@ -143,6 +252,20 @@ export default function NewRequestScreen() {
     }
   };
 
+  const updateCustomField = (key: string, value: string) => {
+    setCustomFields(prev => ({ ...prev, [key]: value }));
+    if (customFieldErrors[key]) {
+      setCustomFieldErrors(prev => ({ ...prev, [key]: undefined }));
+    }
+  };
+
+  const updateCcEmails = (ccEmails: string[]) => {
+    setFormData(prev => ({ ...prev, ccEmails }));
+    if (errors.ccEmails) {
+      setErrors(prev => ({ ...prev, ccEmails: undefined }));
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -164,6 +287,22 @@ export default function NewRequestScreen() {
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.form}>
+          {offeredDraft && (
+            <View style={styles.draftBanner}>
+              <Text style={styles.draftBannerText}>
+                You have an unsent request from {offeredDraft.savedAt.toLocaleString()}. Attachments aren&apos;t kept in drafts.
+              </Text>
+              <View style={styles.draftBannerActions}>
+                <TouchableOpacity onPress={dismissDraft} activeOpacity={0.7}>
+                  <Text style={styles.draftBannerAction}>DISCARD</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleResumeDraft} activeOpacity={0.7}>
+                  <Text style={styles.draftBannerAction}>RESUME DRAFT</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           {/* Personal Information Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Personal Information</Text>
@@ -217,16 +356,16 @@ export default function NewRequestScreen() {
               <Text style={styles.label}>
                 Other email addresses to be included in the status updates
               </Text>
-              <TextInput
-                style={[styles.input, errors.ccEmail && styles.inputError]}
-                value={formData.ccEmail}
-                onChangeText={(value) => updateFormData('ccEmail', value)}
+              <EmailChipInput
+                value={formData.ccEmails}
+                onChange={updateCcEmails}
+                draft={ccDraft}
+                onDraftChange={setCcDraft}
+                excludeEmail={formData.email}
+                error={errors.ccEmails}
                 placeholder="Enter additional email addresses"
-                keyboardType="email-address"
-                autoCapitalize="none"
-                editable={!loading}
+                disabled={loading}
               />
-              {errors.ccEmail && <Text style={styles.errorText}>{errors.ccEmail}</Text>}
             </View>
           </View>
 
@@ -252,28 +391,42 @@ export default function NewRequestScreen() {
               <Text style={styles.label}>
                 Request Category <Text style={styles.required}>*</Text>
               </Text>
+              <CategoryPicker
+                categories={categories}
+                value={formData.category}
+                onChange={(category) => updateFormData('category', category)}
+                loading={categoriesLoading}
+                disabled={loading}
+              />
+              {errors.category && <Text style={styles.errorText}>{errors.category}</Text>}
+            </View>
+
+            <IntakeFieldInputs
+              fields={categoryFields}
+              values={customFields}
+              errors={customFieldErrors}
+              onChange={updateCustomField}
+              disabled={loading}
+            />
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Priority <Text style={styles.required}>*</Text>
+              </Text>
               <View style={styles.radioGroup}>
-                <TouchableOpacity
-                  style={styles.radioOption}
-                  onPress={() => updateFormData('category', 'Service')}
-                  disabled={loading}
-                >
-                  <View style={styles.radioButton}>
-                    {formData.category === 'Service' && <View style={styles.radioButtonSelected} />}
-                  </View>
-                  <Text style={styles.radioLabel}>Service</Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity
-                  style={styles.radioOption}
-                  onPress={() => updateFormData('category', 'Technical')}
-                  disabled={loading}
-                >
-                  <View style={styles.radioButton}>
-                    {formData.category === 'Technical' && <View style={styles.radioButtonSelected} />}
-                  </View>
-                  <Text style={styles.radioLabel}>Technical</Text>
-                </TouchableOpacity>
+                {TICKET_PRIORITIES.map(priority => (
+                  <TouchableOpacity
+                    key={priority}
+                    style={styles.radioOption}
+                    onPress={() => updateFormData('priority', priority)}
+                    disabled={loading}
+                  >
+                    <View style={styles.radioButton}>
+                      {formData.priority === priority && <View style={styles.radioButtonSelected} />}
+                    </View>
+                    <Text style={styles.radioLabel}>{priority}</Text>
+                  </TouchableOpacity>
+                ))}
               </View>
             </View>
 
@@ -293,6 +446,17 @@ export default function NewRequestScreen() {
               />
               {errors.details && <Text style={styles.errorText}>{errors.details}</Text>}
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Attachments <Text style={styles.optionalText}>(screenshots, logs, PDFs)</Text>
+              </Text>
+              <AttachmentPicker
+                value={attachments}
+                onChange={setAttachments}
+                disabled={loading}
+              />
+            </View>
           </View>
         </View>
       </ScrollView>
@@ -369,6 +533,30 @@ const styles = StyleSheet.create({
   form: {
     padding: 20,
   },
+  draftBanner: {
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  draftBannerText: {
+    color: '#92400e',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  draftBannerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  draftBannerAction: {
+    color: '#92400e',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   section: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -399,6 +587,10 @@ const styles = StyleSheet.create({
   required: {
     color: '#ef4444',
   },
+  optionalText: {
+    color: '#9ca3af',
+    fontWeight: '400',
+  },
   input: {
     borderWidth: 1,
     borderColor: '#d1d5db',
@@ -0,0 +1,439 @@
+import EmailChipInput from '@/components/EmailChipInput';
+import { useAuth } from '@/contexts/AuthContext';
+import { findInvalidEmails, parseEmailList } from '@/lib/ccRecipients';
+import { useRouter } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+interface DetailsErrors {
+  name?: string;
+  phone?: string;
+  defaultCcEmails?: string;
+}
+
+interface PasswordErrors {
+  currentPassword?: string;
+  newPassword?: string;
+  confirmPassword?: string;
+}
+
+export default function ProfileScreen() {
+  const { user, userData, updateProfileDetails, changePassword } = useAuth();
+  const router = useRouter();
+
+  const [name, setName] = useState(userData?.name || '');
+  const [phone, setPhone] = useState(userData?.phone || '');
+  const [defaultCcEmails, setDefaultCcEmails] = useState<string[]>(userData?.defaultCcEmails || []);
+  const [ccDraft, setCcDraft] = useState('');
+  const [savingDetails, setSavingDetails] = useState(false);
+  const [detailsErrors, setDetailsErrors] = useState<DetailsErrors>({});
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [passwordErrors, setPasswordErrors] = useState<PasswordErrors>({});
+
+  useEffect(() => {
+    if (!user) {
+      router.replace('/login');
+    }
+  }, [user, router]);
+
+  const validateDetails = (): boolean => {
+    const newErrors: DetailsErrors = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    // Phone is optional here; new requests still require one
+    if (phone.trim() && !/^\+?[\d\s\-\(\)]+$/.test(phone.trim())) {
+      newErrors.phone = 'Please enter a valid phone number';
+    }
+
+    const invalidCcEmails = findInvalidEmails([...defaultCcEmails, ...parseEmailList(ccDraft)]);
+    if (invalidCcEmails.length > 0) {
+      newErrors.defaultCcEmails = `Please enter valid email addresses (${invalidCcEmails.join(', ')})`;
+    }
+
+    setDetailsErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSaveDetails = async () => {
+    if (!validateDetails()) return;
+
+    setSavingDetails(true);
+    try {
+      await updateProfileDetails({
+        name,
+        phone,
+        defaultCcEmails: [...defaultCcEmails, ...parseEmailList(ccDraft)],
+      });
+      setCcDraft('');
+      Alert.alert('Success', 'Your profile has been saved');
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  const validatePassword = (): boolean => {
+    const newErrors: PasswordErrors = {};
+
+    if (!currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    if (!newPassword) {
+      newErrors.newPassword = 'New password is required';
+    } else if (newPassword.length < 6) {
+      newErrors.newPassword = 'Password must be at least 6 characters';
+    } else if (newPassword === currentPassword) {
+      newErrors.newPassword = 'New password must be different from the current one';
+    }
+
+    if (confirmPassword !== newPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setPasswordErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleChangePassword = async () => {
+    if (!validatePassword()) return;
+
+    setChangingPassword(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('Success', 'Your password has been changed');
+    } catch (error: any) {
+      setPasswordErrors({ currentPassword: error.message });
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const updateCcEmails = (emails: string[]) => {
+    setDefaultCcEmails(emails);
+    if (detailsErrors.defaultCcEmails) {
+      setDetailsErrors(prev => ({ ...prev, defaultCcEmails: undefined }));
+    }
+  };
+
+  const handleGoBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/dashboard');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleGoBack}
+        >
+          <ArrowLeft size={20} color="#374151" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Profile</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.form}>
+          {/* Contact Details Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Contact Details</Text>
+            <Text style={styles.sectionDescription}>
+              These are filled in for you on every new request.
+            </Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Your name <Text style={styles.required}>*</Text>
+              </Text>
+              <TextInput
+                style={[styles.input, detailsErrors.name && styles.inputError]}
+                value={name}
+                onChangeText={(value) => {
+                  setName(value);
+                  setDetailsErrors(prev => ({ ...prev, name: undefined }));
+                }}
+                placeholder="Enter your full name"
+                editable={!savingDetails}
+              />
+              {detailsErrors.name && <Text style={styles.errorText}>{detailsErrors.name}</Text>}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Your email address</Text>
+              <TextInput
+                style={[styles.input, styles.inputReadOnly]}
+                value={userData?.email || user?.email || ''}
+                editable={false}
+              />
+              <Text style={styles.hintText}>This is the address you sign in with.</Text>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Your phone number</Text>
+              <TextInput
+                style={[styles.input, detailsErrors.phone && styles.inputError]}
+                value={phone}
+                onChangeText={(value) => {
+                  setPhone(value);
+                  setDetailsErrors(prev => ({ ...prev, phone: undefined }));
+                }}
+                placeholder="Enter your phone number"
+                keyboardType="phone-pad"
+                editable={!savingDetails}
+              />
+              {detailsErrors.phone && <Text style={styles.errorText}>{detailsErrors.phone}</Text>}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>
+                Email addresses to include in status updates by default
+              </Text>
+              <EmailChipInput
+                value={defaultCcEmails}
+                onChange={updateCcEmails}
+                draft={ccDraft}
+                onDraftChange={setCcDraft}
+                excludeEmail={userData?.email}
+                error={detailsErrors.defaultCcEmails}
+                placeholder="Enter additional email addresses"
+                disabled={savingDetails}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, savingDetails && styles.primaryButtonDisabled]}
+              onPress={handleSaveDetails}
+              disabled={savingDetails}
+            >
+              {savingDetails ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>SAVE DETAILS</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Password Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Change Password</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Current password</Text>
+              <TextInput
+                style={[styles.input, passwordErrors.currentPassword && styles.inputError]}
+                value={currentPassword}
+                onChangeText={(value) => {
+                  setCurrentPassword(value);
+                  setPasswordErrors(prev => ({ ...prev, currentPassword: undefined }));
+                }}
+                placeholder="Enter your current password"
+                secureTextEntry
+                autoCapitalize="none"
+                editable={!changingPassword}
+              />
+              {passwordErrors.currentPassword && <Text style={styles.errorText}>{passwordErrors.currentPassword}</Text>}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>New password</Text>
+              <TextInput
+                style={[styles.input, passwordErrors.newPassword && styles.inputError]}
+                value={newPassword}
+                onChangeText={(value) => {
+                  setNewPassword(value);
+                  setPasswordErrors(prev => ({ ...prev, newPassword: undefined }));
+                }}
+                placeholder="At least 6 characters"
+                secureTextEntry
+                autoCapitalize="none"
+                editable={!changingPassword}
+              />
+              {passwordErrors.newPassword && <Text style={styles.errorText}>{passwordErrors.newPassword}</Text>}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Confirm new password</Text>
+              <TextInput
+                style={[styles.input, passwordErrors.confirmPassword && styles.inputError]}
+                value={confirmPassword}
+                onChangeText={(value) => {
+                  setConfirmPassword(value);
+                  setPasswordErrors(prev => ({ ...prev, confirmPassword: undefined }));
+                }}
+                placeholder="Enter the new password again"
+                secureTextEntry
+                autoCapitalize="none"
+                editable={!changingPassword}
+              />
+              {passwordErrors.confirmPassword && <Text style={styles.errorText}>{passwordErrors.confirmPassword}</Text>}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, changingPassword && styles.primaryButtonDisabled]}
+              onPress={handleChangePassword}
+              disabled={changingPassword}
+            >
+              {changingPassword ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>CHANGE PASSWORD</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingTop: 20, // Extra padding for notched devices
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  headerSpacer: {
+    width: 38,
+  },
+  content: {
+    flex: 1,
+  },
+  form: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+    lineHeight: 20,
+  },
+  required: {
+    color: '#ef4444',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#374151',
+    minHeight: 44,
+  },
+  inputReadOnly: {
+    backgroundColor: '#f9fafb',
+    color: '#6b7280',
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+    lineHeight: 16,
+  },
+  hintText: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginTop: 4,
+    lineHeight: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#3B4C80',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.7,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -23,11 +23,11 @@ export default function SignupScreen() {
   const { signup, user } = useAuth();
   const router = useRouter();
 
-  // Redirect if user is already logged in
+  // Redirect if user is already logged in; new accounts confirm their email first
   useEffect(() => {
     if (user) {
-      console.log('Signup: User already logged in, redirecting to dashboard');
-      router.replace('/dashboard');
+      console.log('Signup: User already logged in, redirecting');
+      router.replace(user.emailVerified ? '/dashboard' : '/verify-email');
     }
   }, [user, router]);
 
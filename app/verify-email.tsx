@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { MailWarning } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function VerifyEmailScreen() {
+  const [checking, setChecking] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [resent, setResent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user, userData, resendVerificationEmail, refreshEmailVerification, logout } = useAuth();
+  const router = useRouter();
+
+  // Nothing to verify once signed out or verified
+  useEffect(() => {
+    if (!user) {
+      router.replace('/login');
+    } else if (userData?.emailVerified) {
+      router.replace('/dashboard');
+    }
+  }, [user, userData, router]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+
+    try {
+      const verified = await refreshEmailVerification();
+      if (!verified) {
+        setError('Your email address is not verified yet. Open the link in the email we sent, then try again.');
+      }
+    } catch (error: any) {
+      console.log('Verify email: Check failed:', error.message);
+      setError(error.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+    setError(null);
+
+    try {
+      await resendVerificationEmail();
+      setResent(true);
+    } catch (error: any) {
+      console.log('Verify email: Resend failed:', error.message);
+      setError(error.message);
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const busy = checking || resending;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Verify Email</Text>
+
+          <View style={styles.form}>
+            <View style={styles.confirmation}>
+              <MailWarning size={40} color="#3B4C80" />
+              <Text style={styles.confirmationTitle}>Confirm your email address</Text>
+              <Text style={styles.confirmationText}>
+                We sent a verification link to {user?.email}. Updates on your requests go to this
+                address, so please confirm it before submitting a request.
+              </Text>
+            </View>
+
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.generalErrorText}>{error}</Text>
+              </View>
+            )}
+
+            {resent && !error && (
+              <View style={styles.noticeContainer}>
+                <Text style={styles.noticeText}>A new verification link is on its way.</Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.primaryButtonDisabled]}
+              onPress={handleCheck}
+              disabled={busy}
+            >
+              {checking ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>I&apos;ve Verified My Email</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.secondaryButton, busy && styles.primaryButtonDisabled]}
+              onPress={handleResend}
+              disabled={busy}
+            >
+              {resending ? (
+                <ActivityIndicator color="#3B4C80" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Resend Verification Email</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={handleLogout} disabled={busy}>
+              <Text style={[styles.link, busy && styles.disabledLink]}>Sign in with a different account</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    alignItems: 'center',
+    maxWidth: 400,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '600',
+    color: '#3B4C80',
+    marginBottom: 40,
+  },
+  form: {
+    width: '100%',
+    backgroundColor: '#fff',
+    padding: 32,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  generalErrorText: {
+    color: '#dc2626',
+    fontSize: 14,
+    textAlign: 'center',
+    fontWeight: '500',
+  },
+  noticeContainer: {
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  noticeText: {
+    color: '#3B4C80',
+    fontSize: 14,
+    textAlign: 'center',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    backgroundColor: '#3B4C80',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginBottom: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.7,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#3B4C80',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginBottom: 24,
+  },
+  secondaryButtonText: {
+    color: '#3B4C80',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  link: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  disabledLink: {
+    opacity: 0.5,
+  },
+  confirmation: {
+    alignItems: 'center',
+  },
+  confirmationTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  confirmationText: {
+    fontSize: 14,
+    color: '#6b7280',
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+});
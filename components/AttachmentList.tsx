@@ -0,0 +1,74 @@
+import React from 'react';
+import { Image, Linking, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { FileText } from 'lucide-react-native';
+import { Attachment, formatFileSize, isImageAttachment } from '@/lib/attachments';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+export default function AttachmentList({ attachments }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  const handleOpen = (attachment: Attachment) => {
+    Linking.openURL(attachment.url).catch(error => {
+      console.error('Error opening attachment:', error);
+    });
+  };
+
+  return (
+    <View style={styles.list}>
+      {attachments.map(attachment => (
+        <TouchableOpacity
+          key={attachment.id}
+          style={styles.item}
+          onPress={() => handleOpen(attachment)}
+          activeOpacity={0.7}
+        >
+          {isImageAttachment(attachment) ? (
+            <Image source={{ uri: attachment.url }} style={styles.thumbnail} />
+          ) : (
+            <View style={[styles.thumbnail, styles.fileIcon]}>
+              <FileText size={24} color="#6b7280" />
+            </View>
+          )}
+          <Text style={styles.name} numberOfLines={1}>{attachment.name}</Text>
+          <Text style={styles.size}>{formatFileSize(attachment.size)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  item: {
+    width: 88,
+  },
+  thumbnail: {
+    width: 88,
+    height: 88,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f3f4f6',
+  },
+  fileIcon: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  name: {
+    fontSize: 11,
+    color: '#374151',
+    marginTop: 4,
+  },
+  size: {
+    fontSize: 10,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,226 @@
+import React from 'react';
+import { Alert, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { FileText, ImagePlus, Paperclip, X } from 'lucide-react-native';
+import {
+  formatFileSize,
+  isImageAttachment,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  PendingAttachment,
+  resolveContentType,
+  validateAttachment,
+} from '@/lib/attachments';
+
+interface AttachmentPickerProps {
+  value: PendingAttachment[];
+  onChange: (attachments: PendingAttachment[]) => void;
+  disabled?: boolean;
+}
+
+let nextPendingId = 0;
+const createPendingId = () => `${Date.now()}-${nextPendingId++}`;
+
+export default function AttachmentPicker({ value, onChange, disabled = false }: AttachmentPickerProps) {
+  const remaining = MAX_ATTACHMENTS_PER_UPLOAD - value.length;
+
+  // Validate picked files and add the acceptable ones, reporting anything rejected
+  const addFiles = (files: PendingAttachment[]) => {
+    const errors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+
+    files.forEach(file => {
+      const error = validateAttachment(file);
+      if (error) {
+        errors.push(error);
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    if (accepted.length > remaining) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`);
+      accepted.splice(remaining);
+    }
+
+    if (errors.length > 0) {
+      Alert.alert('Some files were not attached', errors.join('\n'));
+    }
+
+    if (accepted.length > 0) {
+      onChange([...value, ...accepted]);
+    }
+  };
+
+  const handlePickImage = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        quality: 0.8,
+      });
+
+      if (result.canceled) return;
+
+      addFiles(result.assets.map(asset => {
+        const name = asset.fileName || `screenshot-${Date.now()}.jpg`;
+        return {
+          id: createPendingId(),
+          uri: asset.uri,
+          name,
+          contentType: resolveContentType(name, asset.mimeType),
+          size: asset.fileSize || 0, // Unknown sizes are checked when the file is uploaded
+        };
+      }));
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Unable to open your photo library.');
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) return;
+
+      addFiles(result.assets.map(asset => ({
+        id: createPendingId(),
+        uri: asset.uri,
+        name: asset.name,
+        contentType: resolveContentType(asset.name, asset.mimeType),
+        size: asset.size || 0, // Unknown sizes are checked when the file is uploaded
+      })));
+    } catch (error) {
+      console.error('Error picking file:', error);
+      Alert.alert('Error', 'Unable to open the file picker.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter(file => file.id !== id));
+  };
+
+  return (
+    <View>
+      {value.length > 0 && (
+        <View style={styles.fileList}>
+          {value.map(file => (
+            <View key={file.id} style={styles.fileRow}>
+              {isImageAttachment(file) ? (
+                <Image source={{ uri: file.uri }} style={styles.thumbnail} />
+              ) : (
+                <View style={[styles.thumbnail, styles.fileIcon]}>
+                  <FileText size={18} color="#6b7280" />
+                </View>
+              )}
+              <View style={styles.fileInfo}>
+                <Text style={styles.fileName} numberOfLines={1}>{file.name}</Text>
+                <Text style={styles.fileSize}>{formatFileSize(file.size)}</Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemove(file.id)}
+                disabled={disabled}
+                style={styles.removeButton}
+                activeOpacity={0.7}
+              >
+                <X size={16} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, (disabled || remaining <= 0) && styles.actionButtonDisabled]}
+          onPress={handlePickImage}
+          disabled={disabled || remaining <= 0}
+          activeOpacity={0.7}
+        >
+          <ImagePlus size={16} color="#3B4C80" />
+          <Text style={styles.actionText}>Add Screenshot</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, (disabled || remaining <= 0) && styles.actionButtonDisabled]}
+          onPress={handlePickFile}
+          disabled={disabled || remaining <= 0}
+          activeOpacity={0.7}
+        >
+          <Paperclip size={16} color="#3B4C80" />
+          <Text style={styles.actionText}>Add File</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fileList: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 8,
+    backgroundColor: '#fff',
+  },
+  thumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  fileIcon: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 14,
+    color: '#374151',
+    fontWeight: '500',
+  },
+  fileSize: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  removeButton: {
+    padding: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#3B4C80',
+    backgroundColor: '#f0f4ff',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    color: '#3B4C80',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TicketCategory } from '@/lib/ticketCategories';
+
+interface CategoryPickerProps {
+  categories: TicketCategory[];
+  value: string;
+  onChange: (category: string) => void;
+  loading?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Radio list of ticket categories with their descriptions
+ */
+export default function CategoryPicker({ categories, value, onChange, loading = false, disabled = false }: CategoryPickerProps) {
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="small" color="#3B4C80" />
+        <Text style={styles.loadingText}>Loading categories...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.list}>
+      {categories.map(category => (
+        <TouchableOpacity
+          key={category.id}
+          style={[styles.option, value === category.name && styles.optionSelected]}
+          onPress={() => onChange(category.name)}
+          disabled={disabled}
+          activeOpacity={0.7}
+        >
+          <View style={styles.radioButton}>
+            {value === category.name && <View style={styles.radioButtonSelected} />}
+          </View>
+          <View style={styles.optionText}>
+            <Text style={styles.name}>{category.name}</Text>
+            {!!category.description && <Text style={styles.description}>{category.description}</Text>}
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#3B4C80',
+    backgroundColor: '#f0f4ff',
+  },
+  radioButton: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+    marginTop: 1,
+  },
+  radioButtonSelected: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#3B4C80',
+  },
+  optionText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  description: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+});
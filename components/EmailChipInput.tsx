@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { X } from 'lucide-react-native';
+import { isValidEmail, normalizeCcRecipients, parseEmailList } from '@/lib/ccRecipients';
+
+interface EmailChipInputProps {
+  value: string[];
+  onChange: (emails: string[]) => void;
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  excludeEmail?: string;
+  error?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Email entry that turns each typed address into a chip. Addresses are committed
+ * on comma, semicolon, space, return or blur; invalid ones stay in the text box.
+ * The draft text is controlled by the parent so it can be validated on submit.
+ */
+export default function EmailChipInput({
+  value,
+  onChange,
+  draft,
+  onDraftChange,
+  excludeEmail,
+  error,
+  placeholder = 'Add email addresses',
+  disabled = false,
+}: EmailChipInputProps) {
+  const [message, setMessage] = useState<string | null>(null);
+
+  const commit = (addresses: string[], remainder: string) => {
+    const valid = addresses.filter(isValidEmail);
+    const invalid = addresses.filter(address => !isValidEmail(address));
+    const next = normalizeCcRecipients([...value, ...valid], excludeEmail);
+    const skipped = valid.length - (next.length - value.length);
+
+    if (invalid.length > 0) {
+      setMessage(`${invalid.join(', ')} ${invalid.length === 1 ? 'is not a valid email address' : 'are not valid email addresses'}`);
+    } else if (skipped > 0) {
+      setMessage('Duplicate addresses and your own address are not added again');
+    } else {
+      setMessage(null);
+    }
+
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+    onDraftChange([...invalid, remainder].filter(Boolean).join(', '));
+  };
+
+  const handleChangeText = (text: string) => {
+    // Commit every complete address, keeping whatever follows the last separator
+    const match = text.match(/^(.*)[,;\s]([^,;\s]*)$/s);
+    if (match) {
+      commit(parseEmailList(match[1]), match[2]);
+    } else {
+      onDraftChange(text);
+    }
+  };
+
+  const handleCommitDraft = () => {
+    if (draft.trim()) {
+      commit(parseEmailList(draft), '');
+    }
+  };
+
+  const handleRemove = (email: string) => {
+    onChange(value.filter(address => address !== email));
+  };
+
+  return (
+    <View>
+      <View style={[styles.container, (error || message) && styles.containerError]}>
+        {value.map(email => (
+          <View key={email} style={[styles.chip, !isValidEmail(email) && styles.chipInvalid]}>
+            <Text style={[styles.chipText, !isValidEmail(email) && styles.chipTextInvalid]}>{email}</Text>
+            <TouchableOpacity
+              onPress={() => handleRemove(email)}
+              disabled={disabled}
+              hitSlop={8}
+              activeOpacity={0.7}
+            >
+              <X size={14} color={isValidEmail(email) ? '#3B4C80' : '#b91c1c'} />
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={handleChangeText}
+          onSubmitEditing={handleCommitDraft}
+          onBlur={handleCommitDraft}
+          placeholder={value.length === 0 ? placeholder : ''}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          blurOnSubmit={false}
+          editable={!disabled}
+        />
+      </View>
+      {(error || message) && <Text style={styles.errorText}>{error || message}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 8,
+    backgroundColor: '#fff',
+    minHeight: 44,
+  },
+  containerError: {
+    borderColor: '#ef4444',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#f0f4ff',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipInvalid: {
+    backgroundColor: '#fee2e2',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#3B4C80',
+  },
+  chipTextInvalid: {
+    color: '#b91c1c',
+  },
+  input: {
+    flexGrow: 1,
+    minWidth: 160,
+    fontSize: 16,
+    color: '#374151',
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+    lineHeight: 16,
+  },
+});
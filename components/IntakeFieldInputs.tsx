@@ -0,0 +1,128 @@
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { IntakeErrors, IntakeField, IntakeFormValues } from '@/lib/intakeFields';
+
+interface IntakeFieldInputsProps {
+  fields: IntakeField[];
+  values: IntakeFormValues;
+  errors: IntakeErrors;
+  onChange: (key: string, value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Renders the extra questions a category asks on its requests
+ */
+export default function IntakeFieldInputs({ fields, values, errors, onChange, disabled = false }: IntakeFieldInputsProps) {
+  const renderInput = (field: IntakeField) => {
+    const value = values[field.key] || '';
+    const error = errors[field.key];
+
+    if (field.type === 'select') {
+      return (
+        <View style={styles.optionRow}>
+          {(field.options || []).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.option, value === option && styles.optionSelected, error && styles.inputError]}
+              onPress={() => onChange(field.key, value === option && !field.required ? '' : option)}
+              disabled={disabled}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.optionText, value === option && styles.optionTextSelected]}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      );
+    }
+
+    return (
+      <TextInput
+        style={[styles.input, error && styles.inputError]}
+        value={value}
+        onChangeText={(text) => onChange(field.key, text)}
+        placeholder={field.placeholder || (field.type === 'date' ? 'YYYY-MM-DD' : undefined)}
+        keyboardType={field.type === 'number' ? 'numeric' : field.type === 'date' ? 'numbers-and-punctuation' : 'default'}
+        editable={!disabled}
+      />
+    );
+  };
+
+  return (
+    <>
+      {fields.map(field => (
+        <View key={field.key} style={styles.inputGroup}>
+          <Text style={styles.label}>
+            {field.label}{' '}
+            {field.required ? <Text style={styles.required}>*</Text> : <Text style={styles.optionalText}>(optional)</Text>}
+          </Text>
+          {renderInput(field)}
+          {errors[field.key] && <Text style={styles.errorText}>{errors[field.key]}</Text>}
+        </View>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+    lineHeight: 20,
+  },
+  required: {
+    color: '#ef4444',
+  },
+  optionalText: {
+    color: '#9ca3af',
+    fontWeight: '400',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#374151',
+    minHeight: 44,
+  },
+  inputError: {
+    borderColor: '#ef4444',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    backgroundColor: '#3B4C80',
+    borderColor: '#3B4C80',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { getSlaStatus, SlaTicket } from '@/shared/slaPolicy';
+
+interface SlaBadgeProps {
+  ticket: SlaTicket;
+}
+
+export default function SlaBadge({ ticket }: SlaBadgeProps) {
+  const { overall } = getSlaStatus(ticket);
+
+  // Only tickets that need attention get a badge
+  if (overall !== 'at-risk' && overall !== 'breached') return null;
+
+  const breached = overall === 'breached';
+
+  return (
+    <View style={[styles.badge, breached ? styles.breached : styles.atRisk]}>
+      <Text style={[styles.badgeText, breached ? styles.breachedText : styles.atRiskText]}>
+        {breached ? 'SLA Breached' : 'SLA At Risk'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  atRisk: {
+    backgroundColor: '#ffedd5',
+  },
+  breached: {
+    backgroundColor: '#fee2e2',
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  atRiskText: {
+    color: '#9a3412',
+  },
+  breachedText: {
+    color: '#b91c1c',
+  },
+});
@@ -2,21 +2,35 @@ import { createContext, useContext, useEffect, useState, useCallback } from 'rea
 
 import { 
     User, 
-    signInWithEmailAndPassword, 
-    createUserWithEmailAndPassword,
     signOut,
     onAuthStateChanged,
-    updateProfile
   } from 'firebase/auth';
 
-import { doc, setDoc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
-import { auth, db } from '@/lib/firebase';
+import { auth } from '@/lib/firebase';
+import {
+  changePassword as changeAccountPassword,
+  loginWithEmail,
+  refreshEmailVerification,
+  sendPasswordReset,
+  sendVerificationEmail,
+  signupWithEmail,
+} from '@/lib/authService';
+import { ensureUserProfile, ProfileDetails, saveProfileDetails } from '@/lib/userProfile';
+import { toDate } from '@/shared/slaPolicy';
+
+export type UserRole = 'user' | 'agent' | 'admin';
 
 interface UserData {
     uid: string;
     name: string;
     email: string;
+    // From Firebase Auth, not the profile; unverified users can't submit requests
+    emailVerified: boolean;
+    role: UserRole;
     createdAt: Date;
+    // Defaults for new requests, edited on the profile screen
+    phone: string;
+    defaultCcEmails: string[];
     technicalTicketCount?: number;
     serviceTicketCount?: number;
   }
@@ -24,9 +38,18 @@ interface UserData {
 interface AuthContextType {
     user: User | null;
     userData: UserData | null;
+    isAdmin: boolean;
+    isAgent: boolean;
     login: (email: string, password: string) => Promise<void>;
     signup: (email: string, password: string, name: string) => Promise<void>;
     logout: () => Promise<void>;
+    resetPassword: (email: string) => Promise<void>;
+    resendVerificationEmail: () => Promise<void>;
+    refreshEmailVerification: () => Promise<boolean>;
+    updateProfileDetails: (details: ProfileDetails) => Promise<void>;
+    changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+    profileError: string | null;
+    reloadUserData: () => Promise<void>;
     loading: boolean;
     isLoggingOut: boolean;
   }
@@ -47,44 +70,30 @@ export function useAuth() {
     const [userData, setUserData] = useState<UserData | null>(null);
     const [loading, setLoading] = useState(true);
     const [isLoggingOut, setIsLoggingOut] = useState(false);
+    const [profileError, setProfileError] = useState<string | null>(null);
   
     const fetchUserData = useCallback(async (user: User) => {
       try {
-        const userDocRef = doc(db, 'users', user.uid);
-        const userDoc = await getDoc(userDocRef);
-        
-        if (userDoc.exists()) {
-          const data = userDoc.data();
-          setUserData({
-            uid: user.uid,
-            name: data.name,
-            email: data.email,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            technicalTicketCount: data.technicalTicketCount || 0,
-            serviceTicketCount: data.serviceTicketCount || 0,
-          });
-        } else {
-          // Fallback for users without Firestore data
-          setUserData({
-            uid: user.uid,
-            name: user.displayName || '',
-            email: user.email || '',
-            createdAt: new Date(),
-            technicalTicketCount: 0,
-            serviceTicketCount: 0,
-          });
-        }
-      } catch (error) {
-        console.error('Error fetching user data:', error);
-        // Fallback to auth data
+        // Creates the profile, or fills in what it's missing, if an earlier signup didn't finish
+        const data = await ensureUserProfile(user);
         setUserData({
           uid: user.uid,
-          name: user.displayName || '',
-          email: user.email || '',
-          createdAt: new Date(),
-          technicalTicketCount: 0,
-          serviceTicketCount: 0,
+          name: data.name,
+          email: data.email,
+          emailVerified: user.emailVerified,
+          // Only an explicit 'agent' or 'admin' grants elevated access; anything else is a regular user
+          role: data.role === 'admin' || data.role === 'agent' ? data.role : 'user',
+          createdAt: toDate(data.createdAt) || new Date(),
+          phone: data.phone || '',
+          defaultCcEmails: Array.isArray(data.defaultCcEmails) ? data.defaultCcEmails : [],
+          technicalTicketCount: data.technicalTicketCount || 0,
+          serviceTicketCount: data.serviceTicketCount || 0,
         });
+        setProfileError(null);
+      } catch (error) {
+        console.error('Error fetching user data:', error);
+        setUserData(null);
+        setProfileError('Your profile could not be loaded. Check your connection and try again.');
       }
     }, []);
   
@@ -108,6 +117,7 @@ export function useAuth() {
           console.log('❌ Clearing user data...');
           setUser(null);
           setUserData(null);
+          setProfileError(null);
           
           // Clear logout state
           if (isLoggingOut) {
@@ -123,163 +133,47 @@ export function useAuth() {
       return unsubscribe;
     }, [fetchUserData, isLoggingOut]);
   
-    /**
-     * Check if a user exists in Firestore by email
-     * This is more reliable than using Firebase Auth methods
-     */
-    const checkUserExistsInFirestore = async (email: string): Promise<boolean> => {
-      try {
-        console.log('🔍 Checking Firestore for user with email:', email);
-        
-        // Query the users collection for a document with the given email
-        const usersRef = collection(db, 'users');
-        const q = query(usersRef, where('email', '==', email));
-        const querySnapshot = await getDocs(q);
-        
-        const userExists = !querySnapshot.empty;
-        
-        console.log('📧 Firestore user existence check result:', {
-          email,
-          userExists,
-          documentsFound: querySnapshot.size
-        });
-        
-        return userExists;
-      } catch (error: any) {
-        console.error('❌ Error checking user existence in Firestore:', error);
-        
-        // If we can't check Firestore, we'll have to rely on Firebase Auth error
-        throw new Error('Unable to verify user account. Please try again.');
-      }
-    };
-  
+    // The onAuthStateChanged listener picks up the signed-in user and loads their data
     const login = async (email: string, password: string) => {
-      try {
-        console.log('🔐 Starting login process for:', email);
-        
-        // First, check if user exists in Firestore
-        const userExists = await checkUserExistsInFirestore(email);
-        
-        if (!userExists) {
-          console.log('❌ No user found in Firestore for:', email);
-          throw new Error('No account found with this email address. Please sign up first.');
-        }
-        
-        console.log('✅ User found in Firestore, attempting Firebase Auth login...');
-        
-        // User exists in Firestore, now try to authenticate with Firebase Auth
-        const result = await signInWithEmailAndPassword(auth, email, password);
-        console.log('✅ Login successful for user:', result.user.uid);
-        
-        // Login successful - Firebase Auth handled the password validation
-        // The onAuthStateChanged listener will handle setting the user state
-        
-      } catch (error: any) {
-        console.log('❌ Login error:', error.code || 'No code', error.message);
-        
-        // If it's our custom error from Firestore check, re-throw it
-        if (error.message && error.message.includes('No account found with this email address')) {
-          throw error;
-        }
-        
-        // Handle Firebase Auth specific errors
-        switch (error.code) {
-          case 'auth/wrong-password':
-          case 'auth/invalid-credential':
-            // User exists in Firestore but password is wrong
-            console.log('❌ Invalid password for existing user:', email);
-            throw new Error('Invalid password. Please try again.');
-            
-          case 'auth/invalid-email':
-            throw new Error('Invalid email address format.');
-            
-          case 'auth/user-disabled':
-            throw new Error('This account has been disabled. Please contact support.');
-            
-          case 'auth/too-many-requests':
-            throw new Error('Too many failed login attempts. Please try again later.');
-            
-          case 'auth/network-request-failed':
-            throw new Error('Network error. Please check your internet connection and try again.');
-            
-          case 'auth/operation-not-allowed':
-            throw new Error('Email/password sign-in is not enabled. Please contact support.');
-            
-          case 'auth/user-not-found':
-            // This shouldn't happen since we checked Firestore first, but just in case
-            throw new Error('No account found with this email address. Please sign up first.');
-            
-          default:
-            // For any other errors, provide a generic message
-            console.log('🔄 Unhandled error code:', error.code);
-            throw new Error('Login failed. Please check your email and password and try again.');
-        }
-      }
+      await loginWithEmail(email, password);
     };
   
     const signup = async (email: string, password: string, name: string) => {
-      try {
-        console.log('📝 Attempting signup for:', email);
-        
-        // Check if user already exists in Firestore
-        const userExists = await checkUserExistsInFirestore(email);
-        
-        if (userExists) {
-          console.log('❌ User already exists in Firestore:', email);
-          throw new Error('An account with this email already exists. Please sign in instead.');
-        }
-        
-        console.log('✅ Email is available, creating Firebase Auth account...');
-        
-        const { user } = await createUserWithEmailAndPassword(auth, email, password);
-        console.log('✅ Signup successful for user:', user.uid);
-        
-        // Update the user's display name in Firebase Auth
-        await updateProfile(user, { displayName: name });
-        
-        // Save user data to Firestore with initialized counters
-        const userDocRef = doc(db, 'users', user.uid);
-        const userData = {
-          uid: user.uid,
-          name: name,
-          email: email,
-          createdAt: new Date(),
-          technicalTicketCount: 0, // Initialize technical ticket counter
-          serviceTicketCount: 0,   // Initialize service ticket counter
-        };
-        
-        await setDoc(userDocRef, userData);
-        console.log('✅ User data saved to Firestore');
-        
-      } catch (error: any) {
-        console.log('❌ Signup error:', error.code || 'No code', error.message);
-        
-        // If it's our custom error from Firestore check, re-throw it
-        if (error.message && error.message.includes('An account with this email already exists')) {
-          throw error;
-        }
-        
-        switch (error.code) {
-          case 'auth/email-already-in-use':
-            // This shouldn't happen since we checked Firestore first, but just in case
-            throw new Error('An account with this email already exists. Please sign in instead.');
-            
-          case 'auth/weak-password':
-            throw new Error('Password is too weak. Please choose a stronger password (at least 6 characters).');
-            
-          case 'auth/invalid-email':
-            throw new Error('Invalid email address. Please check and try again.');
-            
-          case 'auth/operation-not-allowed':
-            throw new Error('Email/password accounts are not enabled. Please contact support.');
-            
-          case 'auth/network-request-failed':
-            throw new Error('Network error. Please check your internet connection and try again.');
-            
-          default:
-            throw new Error('Signup failed. Please try again.');
-        }
-      }
+      const user = await signupWithEmail(email, password, name);
+      // The listener may have loaded the profile before signup filled in the name
+      await fetchUserData(user);
+    };
+  
+    const reloadUserData = async () => {
+      if (user) await fetchUserData(user);
+    };
+  
+    const resetPassword = async (email: string) => {
+      await sendPasswordReset(email);
+    };
+  
+    const resendVerificationEmail = async () => {
+      if (!user) throw new Error('You must be signed in to verify your email.');
+      await sendVerificationEmail(user);
+    };
+  
+    // The verification link is opened outside the app, so the user has to be reloaded to see it
+    const checkEmailVerification = async () => {
+      if (!user) return false;
+      const emailVerified = await refreshEmailVerification(user);
+      setUserData(current => current ? { ...current, emailVerified } : current);
+      return emailVerified;
+    };
+  
+    const updateProfileDetails = async (details: ProfileDetails) => {
+      if (!user) throw new Error('You must be signed in to update your profile.');
+      const saved = await saveProfileDetails(user, details);
+      setUserData(current => current ? { ...current, ...saved } : current);
+    };
+  
+    const changePassword = async (currentPassword: string, newPassword: string) => {
+      if (!user) throw new Error('You must be signed in to change your password.');
+      await changeAccountPassword(user, currentPassword, newPassword);
     };
   
     const logout = async () => {
@@ -308,9 +202,19 @@ export function useAuth() {
     const value = {
       user,
       userData,
+      isAdmin: userData?.role === 'admin',
+      // Administrators also work tickets, so they count as agents
+      isAgent: userData?.role === 'agent' || userData?.role === 'admin',
       login,
       signup,
       logout,
+      resetPassword,
+      resendVerificationEmail,
+      refreshEmailVerification: checkEmailVerification,
+      updateProfileDetails,
+      changePassword,
+      profileError,
+      reloadUserData,
       loading,
       isLoggingOut
     };
@@ -0,0 +1,45 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp } from 'firebase-admin/app';
+import { onDocumentCreated, onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { detectUpdateEvents, TicketSnapshot } from './notifications/events';
+import { sendTicketNotification } from './notifications/pipeline';
+import { createTransportFromEnv } from './notifications/transport';
+import { applySlaDueDates, needsSlaDueDates } from './tickets/slaDueDates';
+import { reconcileProvisionalTicketIds } from './tickets/ticketIds';
+
+initializeApp();
+
+const TICKET_DOCUMENT = 'users/{uid}/tickets/{ticketDocId}';
+
+export const notifyTicketCreated = onDocumentCreated(TICKET_DOCUMENT, async (event) => {
+  const ticket = event.data?.data() as TicketSnapshot | undefined;
+  if (!ticket) return;
+
+  await sendTicketNotification({ type: 'ticket-created', ticket }, createTransportFromEnv());
+});
+
+export const notifyTicketUpdated = onDocumentUpdated(TICKET_DOCUMENT, async (event) => {
+  const before = event.data?.before.data() as TicketSnapshot | undefined;
+  const after = event.data?.after.data() as TicketSnapshot | undefined;
+  if (!before || !after) return;
+
+  const transport = createTransportFromEnv();
+
+  for (const ticketEvent of detectUpdateEvents(before, after)) {
+    await sendTicketNotification(ticketEvent, transport);
+  }
+});
+
+// Sets the SLA deadlines of new tickets and moves them when category or priority changes
+export const setTicketSlaDueDates = onDocumentWritten(TICKET_DOCUMENT, async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists || !needsSlaDueDates(event.data?.before, after)) return;
+
+  await applySlaDueDates(after);
+});
+
+// Numbers tickets the app had to save as provisional when the sequence was unavailable
+export const reconcileTicketIds = onSchedule('every 10 minutes', async () => {
+  await reconcileProvisionalTicketIds(getFirestore());
+});
@@ -0,0 +1,44 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { initializeApp } from 'firebase-admin/app';
+import { getCcAddresses } from '../notifications/recipients';
+
+/**
+ * One-off migration from the single-string ccEmail field to the ccEmails list.
+ * The app also migrates tickets lazily when they are saved; this backfills the rest.
+ *
+ * Usage: GOOGLE_APPLICATION_CREDENTIALS=<key.json> npm run migrate:cc-emails
+ */
+async function migrateCcEmails() {
+  initializeApp();
+  const db = getFirestore();
+
+  const snapshot = await db.collectionGroup('tickets').where('ccEmail', '!=', null).get();
+  let migrated = 0;
+
+  for (const ticketDoc of snapshot.docs) {
+    const ticket = ticketDoc.data();
+    if (Array.isArray(ticket.ccEmails)) {
+      await ticketDoc.ref.update({ ccEmail: FieldValue.delete() });
+      continue;
+    }
+
+    // Same rules as the app: trimmed, de-duplicated, without the submitter
+    const seen = new Set<string>([(ticket.email || '').trim().toLowerCase()]);
+    const ccEmails = getCcAddresses(ticket).filter(address => {
+      const key = address.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    await ticketDoc.ref.update({ ccEmails, ccEmail: FieldValue.delete() });
+    migrated++;
+  }
+
+  console.log(`Migrated ${migrated} of ${snapshot.size} tickets with a legacy ccEmail field`);
+}
+
+migrateCcEmails().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
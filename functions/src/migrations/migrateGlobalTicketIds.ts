@@ -0,0 +1,66 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp } from 'firebase-admin/app';
+import { buildTicketId } from '../../../shared/ticketIdFormat';
+import {
+  getCounterField,
+  getCreatedDate,
+  getCreatedTime,
+  loadTicketIdFormat,
+  TICKET_COUNTER_PATH,
+} from '../tickets/ticketIds';
+
+/**
+ * One-off migration from per-user ticket numbers to the global ticket sequence.
+ * Every ticket without ticketIdAliases was numbered per user, so it is renumbered
+ * in creation order and keeps its old ID as an alias. The shared counters are
+ * advanced past the numbers handed out so new tickets continue the sequence.
+ *
+ * Usage: GOOGLE_APPLICATION_CREDENTIALS=<key.json> npm run migrate:ticket-ids
+ */
+
+const BATCH_SIZE = 400;
+
+async function migrateGlobalTicketIds() {
+  initializeApp();
+  const db = getFirestore();
+
+  const counterRef = db.doc(TICKET_COUNTER_PATH);
+  const [counterDoc, format, snapshot] = await Promise.all([
+    counterRef.get(),
+    loadTicketIdFormat(db),
+    db.collectionGroup('tickets').get(),
+  ]);
+
+  const counters: Record<string, number> = { ...counterDoc.data() };
+
+  const legacyTickets = snapshot.docs
+    .filter(ticketDoc => !Array.isArray(ticketDoc.get('ticketIdAliases')))
+    .sort((a, b) => getCreatedTime(a.get('createdAt')) - getCreatedTime(b.get('createdAt')));
+
+  for (let start = 0; start < legacyTickets.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+
+    legacyTickets.slice(start, start + BATCH_SIZE).forEach(ticketDoc => {
+      const category: string = ticketDoc.get('category');
+      const counterField = getCounterField(category);
+      counters[counterField] = (counters[counterField] || 0) + 1;
+
+      const legacyId: string | undefined = ticketDoc.get('ticketId');
+      batch.update(ticketDoc.ref, {
+        ticketId: buildTicketId(category, counters[counterField], format, getCreatedDate(ticketDoc.get('createdAt'))),
+        ticketIdAliases: legacyId ? [legacyId] : [],
+      });
+    });
+
+    // Counters are written with each batch so a partial run can be resumed safely
+    batch.set(counterRef, counters, { merge: true });
+    await batch.commit();
+  }
+
+  console.log(`Renumbered ${legacyTickets.length} tickets; counters are now`, counters);
+}
+
+migrateGlobalTicketIds().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
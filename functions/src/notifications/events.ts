@@ -0,0 +1,46 @@
+// Ticket events that trigger email notifications, detected from Firestore document changes
+
+export interface TicketSnapshot {
+  ticketId?: string;
+  name: string;
+  email: string;
+  ccEmails?: string[];
+  ccEmail?: string; // Legacy single-string CC field
+  title: string;
+  details: string;
+  category: string;
+  priority?: string;
+  status: string;
+  history?: HistoryEntry[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  author: string;
+  notes: string;
+  type: string;
+}
+
+export type TicketEvent =
+  | { type: 'ticket-created'; ticket: TicketSnapshot }
+  | { type: 'note-added'; ticket: TicketSnapshot; note: HistoryEntry }
+  | { type: 'status-changed'; ticket: TicketSnapshot; fromStatus: string; toStatus: string };
+
+/**
+ * Works out which notification events an update to a ticket document represents.
+ * Notes are matched by history entry id, so only entries added by this write count.
+ */
+export function detectUpdateEvents(before: TicketSnapshot, after: TicketSnapshot): TicketEvent[] {
+  const events: TicketEvent[] = [];
+
+  if (before.status !== after.status) {
+    events.push({ type: 'status-changed', ticket: after, fromStatus: before.status, toStatus: after.status });
+  }
+
+  const previousIds = new Set((before.history || []).map(entry => entry.id));
+  (after.history || [])
+    .filter(entry => entry.type === 'note' && !previousIds.has(entry.id))
+    .forEach(note => events.push({ type: 'note-added', ticket: after, note }));
+
+  return events;
+}
@@ -0,0 +1,30 @@
+import * as logger from 'firebase-functions/logger';
+import { TicketEvent } from './events';
+import { getRecipients } from './recipients';
+import { renderEmail } from './templates';
+import { MailTransport } from './transport';
+
+/**
+ * Renders and delivers the notification for a ticket event.
+ * Delivery failures are logged rather than thrown so one bad event
+ * never blocks the others raised by the same write.
+ */
+export async function sendTicketNotification(event: TicketEvent, transport: MailTransport): Promise<boolean> {
+  const recipients = getRecipients(event.ticket);
+
+  if (recipients.length === 0) {
+    logger.warn('No valid recipients for ticket notification', { type: event.type, ticketId: event.ticket.ticketId });
+    return false;
+  }
+
+  const email = renderEmail(event);
+
+  try {
+    await transport.send({ to: recipients, ...email });
+    logger.info('Ticket notification sent', { type: event.type, ticketId: event.ticket.ticketId, recipients });
+    return true;
+  } catch (error) {
+    logger.error('Failed to send ticket notification', { type: event.type, ticketId: event.ticket.ticketId, error });
+    return false;
+  }
+}
@@ -0,0 +1,39 @@
+import { TicketSnapshot } from './events';
+
+// Who receives ticket notifications: the submitter plus any CC addresses
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Splits a free-form CC field on commas, semicolons and whitespace
+ */
+export function parseCcEmail(ccEmail: string | undefined): string[] {
+  if (!ccEmail) return [];
+  return ccEmail.split(/[,;\s]+/).map(address => address.trim()).filter(Boolean);
+}
+
+/**
+ * Gets the CC addresses of a ticket, falling back to the legacy ccEmail string
+ * for tickets that have not been migrated to ccEmails yet
+ */
+export function getCcAddresses(ticket: Pick<TicketSnapshot, 'ccEmails' | 'ccEmail'>): string[] {
+  return Array.isArray(ticket.ccEmails) ? ticket.ccEmails : parseCcEmail(ticket.ccEmail);
+}
+
+/**
+ * Gets the de-duplicated, valid recipients of a ticket's notifications
+ */
+export function getRecipients(ticket: TicketSnapshot): string[] {
+  const seen = new Set<string>();
+  const recipients: string[] = [];
+
+  [ticket.email, ...getCcAddresses(ticket)].forEach(address => {
+    const normalized = (address || '').trim().toLowerCase();
+    if (EMAIL_PATTERN.test(normalized) && !seen.has(normalized)) {
+      seen.add(normalized);
+      recipients.push(address.trim());
+    }
+  });
+
+  return recipients;
+}
@@ -0,0 +1,93 @@
+import { TicketEvent, TicketSnapshot } from './events';
+
+// Email templates for ticket notifications
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function getReference(ticket: TicketSnapshot): string {
+  return ticket.ticketId ? `[${ticket.ticketId}] ` : '';
+}
+
+/**
+ * Lays out a notification as plain text and HTML from a heading, body paragraphs
+ * and the ticket summary shared by every template
+ */
+function layout(ticket: TicketSnapshot, subject: string, heading: string, paragraphs: string[]): RenderedEmail {
+  const summary = [
+    ['Ticket', ticket.ticketId || 'Pending'],
+    ['Title', ticket.title],
+    ['Category', ticket.category],
+    ['Priority', ticket.priority || 'Normal'],
+    ['Status', ticket.status],
+  ];
+
+  const text = [
+    `Hello ${ticket.name},`,
+    '',
+    heading,
+    '',
+    ...paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...summary.map(([label, value]) => `${label}: ${value}`),
+    '',
+    'This is an automated message from the Front Desk.',
+  ].join('\n');
+
+  const html = [
+    `<p>Hello ${escapeHtml(ticket.name)},</p>`,
+    `<p><strong>${escapeHtml(heading)}</strong></p>`,
+    ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`),
+    '<table cellpadding="4">',
+    ...summary.map(([label, value]) => `<tr><td><strong>${escapeHtml(label)}</strong></td><td>${escapeHtml(value)}</td></tr>`),
+    '</table>',
+    '<p style="color:#6b7280">This is an automated message from the Front Desk.</p>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+/**
+ * Renders the email for a ticket event
+ */
+export function renderEmail(event: TicketEvent): RenderedEmail {
+  const { ticket } = event;
+  const reference = getReference(ticket);
+
+  switch (event.type) {
+    case 'ticket-created':
+      return layout(
+        ticket,
+        `${reference}We received your request: ${ticket.title}`,
+        'Your request has been received and will be reviewed by our team.',
+        [ticket.details]
+      );
+
+    case 'note-added':
+      return layout(
+        ticket,
+        `${reference}New update on: ${ticket.title}`,
+        `${event.note.author} added a note to this request.`,
+        [event.note.notes]
+      );
+
+    case 'status-changed':
+      return layout(
+        ticket,
+        `${reference}Status changed to ${event.toStatus}: ${ticket.title}`,
+        `The status of this request changed from ${event.fromStatus} to ${event.toStatus}.`,
+        []
+      );
+  }
+}
@@ -0,0 +1,81 @@
+import * as logger from 'firebase-functions/logger';
+import nodemailer from 'nodemailer';
+
+// Pluggable delivery for notification emails
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * SMTP delivery. Point it at a local mail catcher (e.g. Mailpit on port 1025)
+ * to inspect messages without sending real email.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+}
+
+/**
+ * Logs messages instead of sending them, used when no SMTP host is configured
+ */
+export function createLogTransport(): MailTransport {
+  return {
+    async send(message) {
+      logger.info('Email notification (not sent, SMTP_HOST is not set)', {
+        to: message.to,
+        subject: message.subject,
+      });
+    },
+  };
+}
+
+/**
+ * Builds the transport from SMTP_* environment variables
+ */
+export function createTransportFromEnv(env: Record<string, string | undefined> = process.env): MailTransport {
+  if (!env.SMTP_HOST) {
+    return createLogTransport();
+  }
+
+  return createSmtpTransport({
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '587', 10),
+    secure: env.SMTP_SECURE === 'true',
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.MAIL_FROM || 'Front Desk <no-reply@ticketing-desk.local>',
+  });
+}
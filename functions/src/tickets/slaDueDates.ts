@@ -0,0 +1,31 @@
+import { DocumentSnapshot } from 'firebase-admin/firestore';
+import { computeSlaDueDates, DEFAULT_PRIORITY, isTicketPriority } from '../../../shared/slaPolicy';
+import { getCreatedDate } from './ticketIds';
+
+// SLA deadlines are set here rather than by the app, so a submitter can't move their own
+
+/**
+ * Checks whether a write to a ticket calls for new SLA deadlines: it was just
+ * created, or its category or priority changed
+ */
+export function needsSlaDueDates(before: DocumentSnapshot | undefined, after: DocumentSnapshot): boolean {
+  return !before?.exists
+    || before.get('category') !== after.get('category')
+    || before.get('priority') !== after.get('priority');
+}
+
+/**
+ * Sets a ticket's first-response and resolution deadlines from its category and
+ * priority, always measured from when the ticket was opened
+ */
+export async function applySlaDueDates(ticket: DocumentSnapshot): Promise<void> {
+  const priority = ticket.get('priority');
+
+  const { firstResponseDueAt, resolutionDueAt } = computeSlaDueDates(
+    ticket.get('category'),
+    isTicketPriority(priority) ? priority : DEFAULT_PRIORITY,
+    getCreatedDate(ticket.get('createdAt'))
+  );
+
+  await ticket.ref.update({ firstResponseDueAt, resolutionDueAt });
+}
@@ -0,0 +1,91 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import {
+  buildTicketId,
+  resolveTicketIdFormat,
+  TicketIdFormat,
+} from '../../../shared/ticketIdFormat';
+
+// Ticket numbering on the server, matching lib/ticketUtils.ts in the app
+
+export const TICKET_COUNTER_PATH = 'counters/tickets';
+export const TICKET_ID_SETTINGS_PATH = 'settings/ticketIds';
+export const CATEGORIES_COLLECTION = 'categories';
+
+/**
+ * Loads the ticket ID format with each category's prefix applied, as the app does
+ */
+export async function loadTicketIdFormat(db: Firestore): Promise<TicketIdFormat> {
+  const [settings, categories] = await Promise.all([
+    db.doc(TICKET_ID_SETTINGS_PATH).get(),
+    db.collection(CATEGORIES_COLLECTION).get(),
+  ]);
+
+  return resolveTicketIdFormat(settings.data(), categories.docs.map(category => category.data()));
+}
+
+export function getCounterField(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+export function getCreatedTime(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : 0;
+}
+
+export function getCreatedDate(value: unknown): Date {
+  return value instanceof Timestamp ? value.toDate() : new Date();
+}
+
+/**
+ * Assigns real sequential numbers to tickets saved as provisional because the app
+ * could not reserve one. Each ticket is numbered in its own transaction, oldest
+ * first, and re-checked inside it so a ticket is never numbered twice.
+ */
+export async function reconcileProvisionalTicketIds(db: Firestore): Promise<number> {
+  const snapshot = await db.collectionGroup('tickets').where('ticketIdProvisional', '==', true).get();
+  const provisionalTickets = [...snapshot.docs]
+    .sort((a, b) => getCreatedTime(a.get('createdAt')) - getCreatedTime(b.get('createdAt')));
+
+  const format = await loadTicketIdFormat(db);
+  let reconciled = 0;
+
+  for (const ticketDoc of provisionalTickets) {
+    try {
+      const ticketId = await db.runTransaction(async (transaction) => {
+        const counterRef = db.doc(TICKET_COUNTER_PATH);
+        const [ticket, counter] = await Promise.all([
+          transaction.get(ticketDoc.ref),
+          transaction.get(counterRef),
+        ]);
+
+        if (!ticket.exists || ticket.get('ticketIdProvisional') !== true) {
+          return null;
+        }
+
+        const category: string = ticket.get('category');
+        const counterField = getCounterField(category);
+        const nextNumber = (counter.get(counterField) || 0) + 1;
+        const nextTicketId = buildTicketId(
+          category,
+          nextNumber,
+          format,
+          getCreatedDate(ticket.get('createdAt'))
+        );
+
+        transaction.set(counterRef, { [counterField]: nextNumber }, { merge: true });
+        transaction.update(ticketDoc.ref, { ticketId: nextTicketId, ticketIdProvisional: false });
+        return nextTicketId;
+      });
+
+      if (ticketId) {
+        reconciled++;
+        logger.info('Assigned ticket number to provisional ticket', { path: ticketDoc.ref.path, ticketId });
+      }
+    } catch (error) {
+      // Left provisional; the next run picks it up again
+      logger.error('Failed to number provisional ticket', { path: ticketDoc.ref.path, error });
+    }
+  }
+
+  return reconciled;
+}
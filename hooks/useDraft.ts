@@ -0,0 +1,89 @@
+import { Draft, draftStore } from '@/lib/drafts';
+import { useEffect, useRef, useState } from 'react';
+
+// How long typing has to pause before the draft is saved
+const DRAFT_SAVE_DELAY_MS = 500;
+
+/**
+ * Autosaves a form's contents as a draft under key while it is edited, and offers
+ * the draft left from an earlier visit. Autosaving starts once the offered draft is
+ * resumed or dismissed, so it is never overwritten before the user has chosen.
+ * Empty contents remove the draft. Pass a null key until the user is known.
+ */
+export function useDraft<T>(key: string | null, value: T, isEmpty: (value: T) => boolean) {
+  const [offeredDraft, setOfferedDraft] = useState<Draft<T> | null>(null);
+  const [autosaving, setAutosaving] = useState(false);
+  const isEmptyRef = useRef(isEmpty);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  isEmptyRef.current = isEmpty;
+
+  // Look for a draft from an earlier visit
+  useEffect(() => {
+    setOfferedDraft(null);
+    setAutosaving(false);
+    if (!key) return;
+
+    let active = true;
+    draftStore.load<T>(key).then(draft => {
+      if (!active) return;
+      setOfferedDraft(draft);
+      setAutosaving(!draft);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  // Save shortly after each change
+  useEffect(() => {
+    if (!key || !autosaving) return;
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      if (isEmptyRef.current(value)) {
+        draftStore.discard(key);
+      } else {
+        draftStore.save(key, value);
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [key, autosaving, value]);
+
+  /** Takes the offered draft's contents and starts autosaving */
+  const resumeDraft = (): T | null => {
+    const resumed = offeredDraft?.value ?? null;
+    setOfferedDraft(null);
+    setAutosaving(true);
+    return resumed;
+  };
+
+  /** Deletes the offered draft and starts autosaving */
+  const dismissDraft = async () => {
+    setOfferedDraft(null);
+    setAutosaving(true);
+    if (key) {
+      await draftStore.discard(key);
+    }
+  };
+
+  /** Deletes the draft once its contents have been submitted */
+  const clearDraft = async () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (key) {
+      await draftStore.discard(key);
+    }
+  };
+
+  return { offeredDraft, resumeDraft, dismissDraft, clearDraft };
+}
@@ -0,0 +1,16 @@
+// Tests run in Node against the Firebase emulator suite (see "npm test").
+// lib/firebase is swapped for tests/support/firebase, which connects to the emulators.
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.[jt]sx?$': ['babel-jest', { presets: ['babel-preset-expo'] }],
+  },
+  moduleNameMapper: {
+    '^@/lib/firebase$': '<rootDir>/tests/support/firebase.ts',
+    '^\\./firebase$': '<rootDir>/tests/support/firebase.ts',
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  setupFilesAfterEnv: ['<rootDir>/tests/support/setup.ts'],
+  testTimeout: 30000,
+};
@@ -0,0 +1,68 @@
+import { deleteObject, FirebaseStorage, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { storage } from './firebase';
+
+// Storage backends for ticket attachments
+
+/**
+ * Where attachment file contents are kept. Ticket documents only ever hold
+ * the metadata and the URL returned by upload().
+ */
+export interface AttachmentStorage {
+  upload(path: string, data: Blob | Uint8Array, contentType: string): Promise<string>;
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * Firebase Storage backend used by the app
+ */
+export function createFirebaseAttachmentStorage(firebaseStorage: FirebaseStorage): AttachmentStorage {
+  return {
+    async upload(path, data, contentType) {
+      const fileRef = ref(firebaseStorage, path);
+      await uploadBytes(fileRef, data, { contentType });
+      return getDownloadURL(fileRef);
+    },
+
+    async remove(path) {
+      await deleteObject(ref(firebaseStorage, path));
+    },
+  };
+}
+
+/**
+ * The subset of Node's fs/promises used by the local backend
+ */
+export interface LocalFileSystem {
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+  rm(path: string, options: { force: true }): Promise<void>;
+}
+
+/**
+ * Local filesystem stand-in for tests. The file system is passed in
+ * (normally require('fs/promises')) so this module stays bundle-safe.
+ */
+export function createLocalAttachmentStorage(rootDir: string, fs: LocalFileSystem): AttachmentStorage {
+  const resolve = (path: string) => `${rootDir.replace(/\/+$/, '')}/${path}`;
+
+  return {
+    async upload(path, data) {
+      const filePath = resolve(path);
+      const bytes = data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+
+      await fs.mkdir(filePath.substring(0, filePath.lastIndexOf('/')), { recursive: true });
+      await fs.writeFile(filePath, bytes);
+
+      return `file://${filePath}`;
+    },
+
+    async remove(path) {
+      await fs.rm(resolve(path), { force: true });
+    },
+  };
+}
+
+/**
+ * Storage used by the app screens
+ */
+export const attachmentStorage = createFirebaseAttachmentStorage(storage);
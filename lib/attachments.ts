@@ -0,0 +1,146 @@
+import { AttachmentStorage } from './attachmentStorage';
+
+// Attachment metadata, limits and upload helpers for ticket files and screenshots
+
+export interface Attachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  url: string;
+  path: string;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+/**
+ * A file picked on the device that has not been uploaded yet
+ */
+export interface PendingAttachment {
+  id: string;
+  uri: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB per file
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+/**
+ * Accepted types: screenshots/photos, PDFs and plain-text logs
+ */
+const ALLOWED_CONTENT_TYPES = [/^image\/(png|jpe?g|gif|webp|heic)$/, /^application\/pdf$/, /^text\/(plain|csv)$/];
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+};
+
+/**
+ * Works out a content type from the picker's mime type or, failing that, the file extension
+ */
+export function resolveContentType(name: string, mimeType?: string | null): string {
+  if (mimeType && mimeType !== 'application/octet-stream') {
+    return mimeType;
+  }
+
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+export function isImageAttachment(attachment: { contentType: string }): boolean {
+  return attachment.contentType.startsWith('image/');
+}
+
+/**
+ * Validates a picked file against the size and type limits.
+ * Returns an error message, or null if the file is acceptable.
+ */
+export function validateAttachment(file: { name: string; contentType: string; size: number }): string | null {
+  if (!ALLOWED_CONTENT_TYPES.some(pattern => pattern.test(file.contentType))) {
+    return `${file.name}: only images, PDFs and text files can be attached`;
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: files must be ${formatFileSize(MAX_ATTACHMENT_SIZE)} or smaller`;
+  }
+
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Builds the storage path for a ticket attachment
+ */
+export function getAttachmentPath(ownerId: string, ticketDocId: string, attachmentId: string, name: string): string {
+  const safeName = name.replace(/[^\w.\-]+/g, '_');
+  return `tickets/${ownerId}/${ticketDocId}/${attachmentId}-${safeName}`;
+}
+
+/**
+ * Uploads picked files for a ticket and returns their metadata for the ticket document
+ */
+export async function uploadAttachments(
+  attachmentStorage: AttachmentStorage,
+  files: PendingAttachment[],
+  ticket: { ownerId: string; ticketDocId: string },
+  uploadedBy: string
+): Promise<Attachment[]> {
+  for (const file of files) {
+    const error = validateAttachment(file);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  const uploaded: Attachment[] = [];
+
+  try {
+    for (const file of files) {
+      const path = getAttachmentPath(ticket.ownerId, ticket.ticketDocId, file.id, file.name);
+      const response = await fetch(file.uri);
+      const data = await response.blob();
+
+      // Pickers don't always report a size, so the limit is checked again on the file itself
+      const sizeError = validateAttachment({ ...file, size: data.size });
+      if (sizeError) {
+        throw new Error(sizeError);
+      }
+
+      const url = await attachmentStorage.upload(path, data, file.contentType);
+
+      uploaded.push({
+        id: file.id,
+        name: file.name,
+        contentType: file.contentType,
+        size: data.size,
+        url,
+        path,
+        uploadedBy,
+        uploadedAt: new Date(),
+      });
+    }
+  } catch (error) {
+    // Don't leave orphaned files behind when part of a batch fails
+    await Promise.all(uploaded.map(attachment =>
+      attachmentStorage.remove(attachment.path).catch(() => undefined)
+    ));
+    throw error;
+  }
+
+  return uploaded;
+}
@@ -0,0 +1,274 @@
+import {
+  createUserWithEmailAndPassword,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signInWithEmailAndPassword,
+  signOut,
+  updatePassword,
+  updateProfile,
+  User,
+} from 'firebase/auth';
+import { auth } from './firebase';
+import { ensureUserProfile } from './userProfile';
+
+// Email/password sign-in, sign-up, email verification and password changes, and the messages shown when they fail.
+// AuthContext wraps these; they are kept here so they can run outside React.
+
+const ACCOUNT_EXISTS_MESSAGE = 'An account with this email already exists. Please sign in instead.';
+const PROFILE_INCOMPLETE_MESSAGE = 'Your account was created but could not be set up. Please try again with the same password.';
+
+/**
+ * Maps a Firebase Auth sign-in error code to the message shown on the login screen
+ */
+export function getLoginErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case 'auth/wrong-password':
+    case 'auth/invalid-credential':
+    case 'auth/user-not-found':
+      // One message for all three, so the login screen doesn't reveal which emails have accounts
+      return 'Incorrect email or password. Please try again or reset your password.';
+    case 'auth/invalid-email':
+      return 'Invalid email address format.';
+    case 'auth/user-disabled':
+      return 'This account has been disabled. Please contact support.';
+    case 'auth/too-many-requests':
+      return 'Too many failed login attempts. Please try again later.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your internet connection and try again.';
+    case 'auth/operation-not-allowed':
+      return 'Email/password sign-in is not enabled. Please contact support.';
+    default:
+      // For any other errors, provide a generic message
+      return 'Login failed. Please check your email and password and try again.';
+  }
+}
+
+/**
+ * Maps a Firebase Auth sign-up error code to the message shown on the signup screen
+ */
+export function getSignupErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case 'auth/email-already-in-use':
+      return ACCOUNT_EXISTS_MESSAGE;
+    case 'auth/weak-password':
+      return 'Password is too weak. Please choose a stronger password (at least 6 characters).';
+    case 'auth/invalid-email':
+      return 'Invalid email address. Please check and try again.';
+    case 'auth/operation-not-allowed':
+      return 'Email/password accounts are not enabled. Please contact support.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your internet connection and try again.';
+    default:
+      return 'Signup failed. Please try again.';
+  }
+}
+
+/**
+ * Maps a Firebase Auth password reset error code to the message shown on the forgot-password screen
+ */
+export function getPasswordResetErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case 'auth/invalid-email':
+    case 'auth/missing-email':
+      return 'Invalid email address format.';
+    case 'auth/too-many-requests':
+      return 'Too many reset requests. Please wait a few minutes and try again.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your internet connection and try again.';
+    default:
+      return 'Could not send the reset email. Please try again.';
+  }
+}
+
+/**
+ * Maps a Firebase Auth error code from changing the password to the message shown on the profile screen
+ */
+export function getPasswordChangeErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case 'auth/wrong-password':
+    case 'auth/invalid-credential':
+      return 'Your current password is incorrect.';
+    case 'auth/weak-password':
+      return 'Password is too weak. Please choose a stronger password (at least 6 characters).';
+    case 'auth/too-many-requests':
+      return 'Too many attempts. Please try again later.';
+    case 'auth/requires-recent-login':
+    case 'auth/user-token-expired':
+      return 'Your session has expired. Please sign in again.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your internet connection and try again.';
+    default:
+      return 'Could not change your password. Please try again.';
+  }
+}
+
+/**
+ * Maps a Firebase Auth error code from sending or checking email verification
+ * to the message shown on the verify-email screen
+ */
+export function getVerificationErrorMessage(code: string | undefined): string {
+  switch (code) {
+    case 'auth/too-many-requests':
+      return 'Too many verification emails requested. Please wait a few minutes and try again.';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your internet connection and try again.';
+    case 'auth/user-token-expired':
+    case 'auth/user-disabled':
+      return 'Your session has expired. Please sign in again.';
+    default:
+      return 'Could not send the verification email. Please try again.';
+  }
+}
+
+/**
+ * Signs in with email and password. The auth state listener in AuthContext then
+ * loads the profile, creating it if it is missing.
+ * Throws an Error carrying a user-facing message.
+ */
+export async function loginWithEmail(email: string, password: string): Promise<User> {
+  try {
+    console.log('🔐 Starting login process for:', email);
+    const result = await signInWithEmailAndPassword(auth, email, password);
+    console.log('✅ Login successful for user:', result.user.uid);
+
+    return result.user;
+  } catch (error: any) {
+    console.log('❌ Login error:', error.code || 'No code', error.message);
+    throw new Error(getLoginErrorMessage(error.code));
+  }
+}
+
+/**
+ * Creates the Auth account, or signs in to it if an earlier signup with the same
+ * password got as far as creating it
+ */
+async function createOrResumeAccount(email: string, password: string): Promise<User> {
+  try {
+    const { user } = await createUserWithEmailAndPassword(auth, email, password);
+    console.log('✅ Signup successful for user:', user.uid);
+    return user;
+  } catch (error: any) {
+    if (error.code !== 'auth/email-already-in-use') throw error;
+
+    try {
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
+      console.log('🔁 Resuming signup for existing account:', user.uid);
+      return user;
+    } catch {
+      // Someone else's account, or the password doesn't match
+      throw error;
+    }
+  }
+}
+
+/**
+ * Creates an account and its profile document with initialized counters.
+ * Every step can be repeated, so a signup that failed partway is finished by
+ * signing up again with the same password.
+ * Throws an Error carrying a user-facing message.
+ */
+export async function signupWithEmail(email: string, password: string, name: string): Promise<User> {
+  let user: User;
+  try {
+    console.log('📝 Attempting signup for:', email);
+    user = await createOrResumeAccount(email, password);
+
+    if (!user.displayName) {
+      await updateProfile(user, { displayName: name });
+    }
+  } catch (error: any) {
+    console.log('❌ Signup error:', error.code || 'No code', error.message);
+    throw new Error(getSignupErrorMessage(error.code));
+  }
+
+  try {
+    await ensureUserProfile(user, name);
+    console.log('✅ User data saved to Firestore');
+  } catch (error: any) {
+    console.log('❌ Profile creation error:', error.code || 'No code', error.message);
+    // Don't leave the half-created account signed in; the next sign-in or signup finishes it
+    await signOut(auth);
+    throw new Error(PROFILE_INCOMPLETE_MESSAGE);
+  }
+
+  if (!user.emailVerified) {
+    // The account is usable without this, so a failed send is left for the verify-email screen to retry
+    try {
+      await sendEmailVerification(user);
+      console.log('✅ Verification email sent');
+    } catch (verificationError: any) {
+      console.log('❌ Verification email error:', verificationError.code || 'No code', verificationError.message);
+    }
+  }
+
+  return user;
+}
+
+/**
+ * Emails a password reset link. Throws an Error carrying a user-facing message.
+ */
+export async function sendPasswordReset(email: string): Promise<void> {
+  try {
+    console.log('🔑 Sending password reset email to:', email);
+    await sendPasswordResetEmail(auth, email);
+    console.log('✅ Password reset email sent');
+  } catch (error: any) {
+    console.log('❌ Password reset error:', error.code || 'No code', error.message);
+
+    // Report success for unknown emails so the screen can't be used to probe for accounts
+    if (error.code === 'auth/user-not-found') {
+      return;
+    }
+
+    throw new Error(getPasswordResetErrorMessage(error.code));
+  }
+}
+
+/**
+ * Emails a new verification link to the signed-in user. Throws an Error carrying a user-facing message.
+ */
+export async function sendVerificationEmail(user: User): Promise<void> {
+  try {
+    console.log('📧 Sending verification email to:', user.email);
+    await sendEmailVerification(user);
+    console.log('✅ Verification email sent');
+  } catch (error: any) {
+    console.log('❌ Verification email error:', error.code || 'No code', error.message);
+    throw new Error(getVerificationErrorMessage(error.code));
+  }
+}
+
+/**
+ * Reloads the user from Firebase Auth and returns whether their email is now verified.
+ * Also refreshes the ID token, since security rules read verification from the token.
+ */
+export async function refreshEmailVerification(user: User): Promise<boolean> {
+  try {
+    await user.reload();
+    if (user.emailVerified) {
+      await user.getIdToken(true);
+    }
+    return user.emailVerified;
+  } catch (error: any) {
+    console.log('❌ Verification refresh error:', error.code || 'No code', error.message);
+    throw new Error(getVerificationErrorMessage(error.code));
+  }
+}
+
+/**
+ * Changes the signed-in user's password. Firebase requires a recent sign-in for this,
+ * so the current password is checked again first. Throws an Error carrying a user-facing message.
+ */
+export async function changePassword(user: User, currentPassword: string, newPassword: string): Promise<void> {
+  try {
+    console.log('🔑 Changing password for user:', user.uid);
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email || '', currentPassword));
+    await updatePassword(user, newPassword);
+    console.log('✅ Password changed');
+  } catch (error: any) {
+    console.log('❌ Password change error:', error.code || 'No code', error.message);
+    throw new Error(getPasswordChangeErrorMessage(error.code));
+  }
+}
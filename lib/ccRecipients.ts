@@ -0,0 +1,65 @@
+// Utility functions for parsing, validating and normalizing CC recipients on tickets
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+/**
+ * Validates a single email address
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * Splits user input such as "a@x.com, b@y.com; c@z.com" into individual addresses
+ */
+export function parseEmailList(input: string): string[] {
+  return input
+    .split(/[,;\s]+/)
+    .map(email => email.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Gets the addresses in a list that are not valid emails
+ */
+export function findInvalidEmails(emails: string[]): string[] {
+  return emails.filter(email => !isValidEmail(email));
+}
+
+/**
+ * Cleans a recipient list: trims addresses, drops duplicates (case-insensitive)
+ * and removes the submitter, who is always notified anyway
+ */
+export function normalizeCcRecipients(emails: string[], submitterEmail?: string): string[] {
+  const seen = new Set<string>();
+  if (submitterEmail?.trim()) {
+    seen.add(submitterEmail.trim().toLowerCase());
+  }
+
+  const recipients: string[] = [];
+  emails.forEach(email => {
+    const trimmed = email.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      recipients.push(trimmed);
+    }
+  });
+
+  return recipients;
+}
+
+/**
+ * Reads the CC recipients of a ticket. Tickets created before recipient lists
+ * stored a single free-text ccEmail string, which is parsed here so old and new
+ * tickets look the same to the screens.
+ */
+export function getTicketCcRecipients(
+  ticket: { ccEmails?: string[] | null; ccEmail?: string | null; email?: string }
+): string[] {
+  if (Array.isArray(ticket.ccEmails)) {
+    return normalizeCcRecipients(ticket.ccEmails, ticket.email);
+  }
+
+  return normalizeCcRecipients(parseEmailList(ticket.ccEmail || ''), ticket.email);
+}
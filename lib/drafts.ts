@@ -0,0 +1,99 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Unsent form contents kept on the device, so backgrounding the app or a crash
+// doesn't lose them. Drafts are keyed per user, so nobody signing in on a shared
+// device is offered someone else's draft.
+
+/**
+ * The subset of AsyncStorage drafts are kept in
+ */
+export interface DraftStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface Draft<T> {
+  value: T;
+  savedAt: Date;
+}
+
+export interface DraftStore {
+  /** Gets the draft saved under a key, or null when there is none */
+  load<T>(key: string): Promise<Draft<T> | null>;
+  save<T>(key: string, value: T): Promise<void>;
+  discard(key: string): Promise<void>;
+}
+
+/**
+ * Gets the key of one of a user's drafts, e.g. getDraftKey(uid, 'new-request')
+ */
+export function getDraftKey(userId: string, name: string): string {
+  return `drafts/${userId}/${name}`;
+}
+
+/**
+ * Keeps drafts as JSON in the given storage. Failures are logged rather than thrown,
+ * since losing a draft should never get in the way of the form itself.
+ */
+export function createDraftStore(storage: DraftStorage): DraftStore {
+  return {
+    async load<T>(key: string) {
+      try {
+        const stored = await storage.getItem(key);
+        if (!stored) {
+          return null;
+        }
+
+        const { value, savedAt } = JSON.parse(stored);
+        return { value: value as T, savedAt: new Date(savedAt) };
+      } catch (error) {
+        // Unreadable drafts are dropped so they aren't offered again
+        console.warn('Could not load draft:', key, error);
+        await storage.removeItem(key).catch(() => undefined);
+        return null;
+      }
+    },
+
+    async save(key, value) {
+      try {
+        await storage.setItem(key, JSON.stringify({ value, savedAt: new Date().toISOString() }));
+      } catch (error) {
+        console.warn('Could not save draft:', key, error);
+      }
+    },
+
+    async discard(key) {
+      try {
+        await storage.removeItem(key);
+      } catch (error) {
+        console.warn('Could not discard draft:', key, error);
+      }
+    },
+  };
+}
+
+/**
+ * In-memory stand-in for AsyncStorage, for tests
+ */
+export function createMemoryDraftStorage(): DraftStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+
+  return {
+    items,
+    async getItem(key) {
+      return items.get(key) ?? null;
+    },
+    async setItem(key, value) {
+      items.set(key, value);
+    },
+    async removeItem(key) {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Draft store used by the app screens
+ */
+export const draftStore = createDraftStore(AsyncStorage);
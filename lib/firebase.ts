@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, initializeAuth, getReactNativePersistence } from 'firebase/auth';
 import { getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
 import { Platform } from 'react-native';
 import ReactNativeAsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -28,4 +29,7 @@ export const auth = Platform.OS === 'web'
 // Initialize Firestore
 export const db = getFirestore(app);
 
+// Initialize Storage (ticket attachments)
+export const storage = getStorage(app);
+
 export default app;
\ No newline at end of file
@@ -0,0 +1,154 @@
+import {
+  arrayUnion,
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  DocumentReference,
+  DocumentSnapshot,
+  Firestore,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  Query,
+  QueryConstraint,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  compareNewestFirst,
+  createNoteUpdate,
+  Ticket,
+  TicketQuery,
+  TicketRef,
+  TicketRepository,
+  TicketUpdate,
+} from './ticketRepository';
+
+// Firestore implementation of the ticket repository. Tickets live at
+// users/{ownerId}/tickets/{id}; queries across users use the 'tickets' collection group.
+
+function toTicket(ticketDoc: DocumentSnapshot): Ticket {
+  return {
+    id: ticketDoc.id,
+    ownerId: ticketDoc.ref.parent.parent?.id || '',
+    ...ticketDoc.data(),
+  } as Ticket;
+}
+
+function toFirestoreUpdate(update: TicketUpdate): Record<string, any> {
+  const data: Record<string, any> = { ...update.set, modifiedAt: serverTimestamp() };
+
+  update.setServerTime?.forEach(field => {
+    data[field] = serverTimestamp();
+  });
+  update.remove?.forEach(field => {
+    data[field] = deleteField();
+  });
+  if (update.appendHistory && update.appendHistory.length > 0) {
+    data.history = arrayUnion(...update.appendHistory);
+  }
+  if (update.appendAttachments && update.appendAttachments.length > 0) {
+    data.attachments = arrayUnion(...update.appendAttachments);
+  }
+
+  return data;
+}
+
+/**
+ * Creates a ticket repository backed by Firestore
+ */
+export function createFirestoreTicketRepository(firestore: Firestore): TicketRepository {
+  const getTicketRef = (ref: TicketRef): DocumentReference =>
+    doc(firestore, 'users', ref.ownerId, 'tickets', ref.id);
+
+  // Filtered queries are sorted on the client rather than in Firestore,
+  // so they don't need a composite index per filter
+  const buildQuery = (ticketQuery: TicketQuery): { firestoreQuery: Query; sortOnClient: boolean } => {
+    const constraints: QueryConstraint[] = [];
+    if (ticketQuery.assigneeId !== undefined) {
+      constraints.push(where('assigneeId', '==', ticketQuery.assigneeId));
+    }
+
+    const base = ticketQuery.ownerId !== undefined
+      ? collection(firestore, 'users', ticketQuery.ownerId, 'tickets')
+      : collectionGroup(firestore, 'tickets');
+
+    return constraints.length > 0
+      ? { firestoreQuery: query(base, ...constraints), sortOnClient: true }
+      : { firestoreQuery: query(base, orderBy('createdAt', 'desc')), sortOnClient: false };
+  };
+
+  return {
+    newRef(ownerId) {
+      return { ownerId, id: doc(collection(firestore, 'users', ownerId, 'tickets')).id };
+    },
+
+    async create(ref, ticket) {
+      const now = serverTimestamp();
+      await setDoc(getTicketRef(ref), { ...ticket, createdAt: now, modifiedAt: now });
+    },
+
+    async get(ref) {
+      const ticketDoc = await getDoc(getTicketRef(ref));
+      return ticketDoc.exists() ? toTicket(ticketDoc) : null;
+    },
+
+    async update(ref, update) {
+      await updateDoc(getTicketRef(ref), toFirestoreUpdate(update));
+    },
+
+    async updateAtomically(ref, decide) {
+      const ticketRef = getTicketRef(ref);
+
+      return runTransaction(firestore, async (transaction) => {
+        const ticketDoc = await transaction.get(ticketRef);
+
+        if (!ticketDoc.exists()) {
+          throw new Error('Ticket not found.');
+        }
+
+        const { update, result } = decide(toTicket(ticketDoc));
+        if (update) {
+          transaction.update(ticketRef, toFirestoreUpdate(update));
+        }
+
+        return result;
+      });
+    },
+
+    async addNote(ref, note, options) {
+      await updateDoc(getTicketRef(ref), toFirestoreUpdate(createNoteUpdate(note, options)));
+    },
+
+    async query(ticketQuery) {
+      const { firestoreQuery, sortOnClient } = buildQuery(ticketQuery);
+      const snapshot = await getDocs(firestoreQuery);
+      const tickets = snapshot.docs.map(toTicket);
+      return sortOnClient ? tickets.sort(compareNewestFirst) : tickets;
+    },
+
+    subscribe(ticketQuery, onChange, onError) {
+      const { firestoreQuery, sortOnClient } = buildQuery(ticketQuery);
+
+      return onSnapshot(firestoreQuery, (snapshot) => {
+        const tickets = snapshot.docs.map(toTicket);
+        onChange(sortOnClient ? tickets.sort(compareNewestFirst) : tickets);
+      }, onError);
+    },
+
+    subscribeToTicket(ref, onChange, onError) {
+      return onSnapshot(getTicketRef(ref), (ticketDoc) => {
+        onChange(ticketDoc.exists() ? toTicket(ticketDoc) : null);
+      }, onError);
+    },
+  };
+}
+
+export const ticketRepository = createFirestoreTicketRepository(db);
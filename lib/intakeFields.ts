@@ -0,0 +1,145 @@
+// Per-category intake fields: the schema describing extra questions on the request
+// form, plus validation and conversion of the answers stored on tickets
+
+export type IntakeFieldType = 'text' | 'select' | 'date' | 'number';
+
+export const INTAKE_FIELD_TYPES: IntakeFieldType[] = ['text', 'select', 'date', 'number'];
+
+export interface IntakeField {
+  key: string;          // Name of the value in ticket.customFields
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  options?: string[];   // Choices for select fields
+  placeholder?: string;
+  min?: number;         // Bounds for number fields
+  max?: number;
+}
+
+/**
+ * Answers as stored on a ticket: numbers as numbers, dates as YYYY-MM-DD strings
+ */
+export type IntakeValues = Record<string, string | number>;
+
+/**
+ * Answers as edited in a form, where every input is text
+ */
+export type IntakeFormValues = Record<string, string>;
+
+export type IntakeErrors = Record<string, string | undefined>;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses a YYYY-MM-DD date, rejecting impossible dates such as 2025-02-30
+ */
+export function parseIntakeDate(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Cleans a schema read from Firestore, dropping fields that can't be rendered
+ */
+export function normalizeIntakeFields(fields: unknown): IntakeField[] {
+  if (!Array.isArray(fields)) return [];
+
+  return fields
+    .filter(field => field && typeof field.key === 'string' && field.key && typeof field.label === 'string')
+    .filter(field => (INTAKE_FIELD_TYPES as string[]).includes(field.type))
+    .map(field => ({
+      key: field.key,
+      label: field.label,
+      type: field.type as IntakeFieldType,
+      required: field.required === true,
+      ...(Array.isArray(field.options) ? { options: field.options.filter((option: unknown) => typeof option === 'string') } : {}),
+      ...(typeof field.placeholder === 'string' ? { placeholder: field.placeholder } : {}),
+      ...(typeof field.min === 'number' ? { min: field.min } : {}),
+      ...(typeof field.max === 'number' ? { max: field.max } : {}),
+    }))
+    .filter(field => field.type !== 'select' || (field.options && field.options.length > 0));
+}
+
+/**
+ * Validates form answers against a schema
+ */
+export function validateIntakeValues(fields: IntakeField[], values: IntakeFormValues): IntakeErrors {
+  const errors: IntakeErrors = {};
+
+  fields.forEach(field => {
+    const value = (values[field.key] || '').trim();
+
+    if (!value) {
+      if (field.required) {
+        errors[field.key] = `${field.label} is required`;
+      }
+      return;
+    }
+
+    switch (field.type) {
+      case 'select':
+        if (!field.options?.includes(value)) {
+          errors[field.key] = `Please choose a valid ${field.label.toLowerCase()}`;
+        }
+        break;
+      case 'date':
+        if (!parseIntakeDate(value)) {
+          errors[field.key] = 'Please enter a valid date (YYYY-MM-DD)';
+        }
+        break;
+      case 'number': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          errors[field.key] = 'Please enter a number';
+        } else if (field.min !== undefined && number < field.min) {
+          errors[field.key] = `Must be at least ${field.min}`;
+        } else if (field.max !== undefined && number > field.max) {
+          errors[field.key] = `Must be at most ${field.max}`;
+        }
+        break;
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Converts validated form answers for storage. Only fields in the schema are
+ * kept, so answers to another category's questions are not saved.
+ */
+export function toStoredIntakeValues(fields: IntakeField[], values: IntakeFormValues): IntakeValues {
+  const stored: IntakeValues = {};
+
+  fields.forEach(field => {
+    const value = (values[field.key] || '').trim();
+    if (value) {
+      stored[field.key] = field.type === 'number' ? Number(value) : value;
+    }
+  });
+
+  return stored;
+}
+
+/**
+ * Converts stored answers back to form text
+ */
+export function toIntakeFormValues(values: IntakeValues | null | undefined): IntakeFormValues {
+  const formValues: IntakeFormValues = {};
+  Object.entries(values || {}).forEach(([key, value]) => {
+    formValues[key] = String(value);
+  });
+  return formValues;
+}
+
+/**
+ * Checks whether two sets of form answers differ, ignoring blank answers
+ */
+export function intakeValuesChanged(a: IntakeFormValues, b: IntakeFormValues): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].some(key => (a[key] || '').trim() !== (b[key] || '').trim());
+}
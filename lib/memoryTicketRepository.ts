@@ -0,0 +1,172 @@
+import {
+  compareNewestFirst,
+  createNoteUpdate,
+  matchesTicketQuery,
+  Ticket,
+  TicketQuery,
+  TicketRef,
+  TicketRepository,
+  TicketUpdate,
+} from './ticketRepository';
+
+// In-memory implementation of the ticket repository, for unit testing ticket logic
+// without Firebase. Writes are applied synchronously, so updateAtomically is atomic.
+
+interface MemoryTicketRepositoryOptions {
+  tickets?: Ticket[];       // Initial contents
+  now?: () => Date;         // Clock used for server-set times
+}
+
+export interface MemoryTicketRepository extends TicketRepository {
+  /** Every stored ticket, in no particular order */
+  all(): Ticket[];
+}
+
+const getKey = (ref: TicketRef) => `${ref.ownerId}/${ref.id}`;
+
+// Copies the arrays too, so callers can't change stored tickets by accident
+const copyTicket = (ticket: Ticket): Ticket => ({
+  ...ticket,
+  ...(ticket.history && { history: [...ticket.history] }),
+  ...(ticket.attachments && { attachments: [...ticket.attachments] }),
+});
+
+// Compares two stored values field by field, the way Firestore compares array elements
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b)
+      && a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const aEntries = Object.entries(a);
+    const bRecord = b as Record<string, unknown>;
+    return aEntries.length === Object.keys(bRecord).length
+      && aEntries.every(([key, value]) => key in bRecord && isSameValue(value, bRecord[key]));
+  }
+  return a === b;
+};
+
+// Like Firestore's arrayUnion, items equal to one already present are not added again
+const appendUnique = <T>(existing: T[] | undefined, items: T[]): T[] => {
+  const result = [...(existing || [])];
+  items.forEach(item => {
+    if (!result.some(current => isSameValue(current, item))) {
+      result.push(item);
+    }
+  });
+  return result;
+};
+
+/**
+ * Creates a ticket repository that keeps tickets in memory
+ */
+export function createMemoryTicketRepository(options: MemoryTicketRepositoryOptions = {}): MemoryTicketRepository {
+  const now = options.now || (() => new Date());
+  const tickets = new Map<string, Ticket>();
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  (options.tickets || []).forEach(ticket => tickets.set(getKey(ticket), copyTicket(ticket)));
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const runQuery = (ticketQuery: TicketQuery): Ticket[] =>
+    [...tickets.values()]
+      .filter(ticket => matchesTicketQuery(ticket, ticketQuery))
+      .map(copyTicket)
+      .sort(compareNewestFirst);
+
+  const applyUpdate = (ref: TicketRef, update: TicketUpdate) => {
+    const current = tickets.get(getKey(ref));
+    if (!current) {
+      throw new Error('Ticket not found.');
+    }
+
+    const next: Ticket = { ...current, ...update.set, modifiedAt: now() };
+    update.setServerTime?.forEach(field => {
+      next[field] = now();
+    });
+    update.remove?.forEach(field => {
+      delete next[field];
+    });
+    if (update.appendHistory) {
+      next.history = appendUnique(current.history, update.appendHistory);
+    }
+    if (update.appendAttachments) {
+      next.attachments = appendUnique(current.attachments, update.appendAttachments);
+    }
+
+    tickets.set(getKey(ref), next);
+    notify();
+  };
+
+  return {
+    newRef(ownerId) {
+      return { ownerId, id: `ticket-${nextId++}` };
+    },
+
+    async create(ref, ticket) {
+      const createdAt = now();
+      tickets.set(getKey(ref), { ...ticket, ...ref, createdAt, modifiedAt: createdAt });
+      notify();
+    },
+
+    async get(ref) {
+      const ticket = tickets.get(getKey(ref));
+      return ticket ? copyTicket(ticket) : null;
+    },
+
+    async update(ref, update) {
+      applyUpdate(ref, update);
+    },
+
+    async updateAtomically(ref, decide) {
+      const ticket = tickets.get(getKey(ref));
+      if (!ticket) {
+        throw new Error('Ticket not found.');
+      }
+
+      const { update, result } = decide(copyTicket(ticket));
+      if (update) {
+        applyUpdate(ref, update);
+      }
+      return result;
+    },
+
+    async addNote(ref, note, noteOptions) {
+      applyUpdate(ref, createNoteUpdate(note, noteOptions));
+    },
+
+    async query(ticketQuery) {
+      return runQuery(ticketQuery);
+    },
+
+    subscribe(ticketQuery, onChange) {
+      const listener = () => onChange(runQuery(ticketQuery));
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    subscribeToTicket(ref, onChange) {
+      const listener = () => {
+        const ticket = tickets.get(getKey(ref));
+        onChange(ticket ? copyTicket(ticket) : null);
+      };
+      listeners.add(listener);
+      listener();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    all() {
+      return [...tickets.values()].map(copyTicket);
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { TicketRef, TicketRepository } from './ticketRepository';
+
+// Utility functions for assigning tickets to support agents and teams
+
+/**
+ * Teams a ticket can be routed to
+ */
+export const SUPPORT_TEAMS = ['Service Desk', 'Technical Support', 'Escalations'];
+
+export interface Agent {
+  uid: string;
+  name: string;
+  email: string;
+}
+
+export interface TicketAssignment {
+  assignee: Agent | null;
+  team: string | null;
+}
+
+export interface AssignmentEntry {
+  id: string;
+  author: string;
+  timestamp: Date;
+  notes: string;
+  type: 'assignment';
+  assigneeId: string | null;
+  team: string | null;
+}
+
+/**
+ * Gets every user who can be assigned tickets (agents and administrators)
+ */
+export async function getAgents(): Promise<Agent[]> {
+  try {
+    const usersRef = collection(db, 'users');
+    const q = query(usersRef, where('role', 'in', ['agent', 'admin']));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(userDoc => ({
+        uid: userDoc.id,
+        name: userDoc.data().name || '',
+        email: userDoc.data().email || '',
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting agents:', error);
+    return [];
+  }
+}
+
+/**
+ * Describes an assignment change for the ticket history. Assignees are compared
+ * by uid, since two agents can share a name; names are only used in the text.
+ */
+export function describeAssignmentChange(
+  previous: { assigneeId?: string | null; assigneeName?: string | null; team?: string | null },
+  next: TicketAssignment
+): string {
+  const changes: string[] = [];
+  const previousName = previous.assigneeName || null;
+  const nextName = next.assignee?.name || null;
+
+  if ((previous.assigneeId || null) !== (next.assignee?.uid || null)) {
+    if (!next.assignee) {
+      changes.push(`Unassigned from ${previousName}`);
+    } else if (!previous.assigneeId) {
+      changes.push(`Assigned to ${nextName}`);
+    } else {
+      changes.push(`Reassigned from ${previousName} to ${nextName}`);
+    }
+  }
+
+  if ((previous.team || null) !== next.team) {
+    changes.push(next.team ? `Team set to ${next.team}` : 'Team cleared');
+  }
+
+  return changes.join('. ');
+}
+
+/**
+ * Assigns or reassigns a ticket and records the change in its history.
+ * Returns null when the requested assignment matches the current one.
+ */
+export async function assignTicket(
+  repository: TicketRepository,
+  ticketRef: TicketRef,
+  assignment: TicketAssignment,
+  author: string
+): Promise<AssignmentEntry | null> {
+  return repository.updateAtomically(ticketRef, (ticket) => {
+    const notes = describeAssignmentChange(ticket, assignment);
+
+    if (!notes) {
+      return { update: null, result: null };
+    }
+
+    const entry: AssignmentEntry = {
+      id: Date.now().toString(),
+      author,
+      timestamp: new Date(),
+      notes,
+      type: 'assignment',
+      assigneeId: assignment.assignee?.uid || null,
+      team: assignment.team,
+    };
+
+    // assigneeId is stored flat so the "Assigned to me" view can query on it
+    return {
+      update: {
+        set: {
+          assigneeId: assignment.assignee?.uid || null,
+          assigneeName: assignment.assignee?.name || null,
+          team: assignment.team,
+        },
+        appendHistory: [entry],
+      },
+      result: entry,
+    };
+  });
+}
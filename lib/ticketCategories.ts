@@ -0,0 +1,205 @@
+import { collection, doc, getDocs, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { IntakeField, normalizeIntakeFields } from './intakeFields';
+import { CategoryPrefixSource, DEFAULT_CATEGORY_PREFIXES } from '../shared/ticketIdFormat';
+
+// Ticket categories, stored in the 'categories' collection so administrators can manage them
+
+export interface TicketCategory {
+  id: string;          // Document ID, derived from the name when the category is created
+  name: string;        // Stored on tickets, so it can't be changed once created
+  prefix: string;      // Ticket ID prefix, e.g. 'T' gives T-0001
+  description: string;
+  active: boolean;     // Inactive categories can't be chosen for new requests
+  order: number;
+  fields: IntakeField[]; // Extra questions asked on requests in this category
+}
+
+export interface CategoryErrors {
+  name?: string;
+  prefix?: string;
+  description?: string;
+}
+
+/**
+ * Built-in categories. Stored documents with the same ID override these,
+ * so they can be edited or deactivated like any other category.
+ */
+export const DEFAULT_CATEGORIES: TicketCategory[] = [
+  {
+    id: 'service',
+    name: 'Service',
+    prefix: DEFAULT_CATEGORY_PREFIXES.Service,
+    description: 'Requests for something new, such as equipment, software or information',
+    active: true,
+    order: 0,
+    fields: [
+      { key: 'location', label: 'Location', type: 'text', required: true, placeholder: 'Building, floor or desk' },
+      { key: 'neededBy', label: 'Needed by', type: 'date', required: false, placeholder: 'YYYY-MM-DD' },
+    ],
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    prefix: DEFAULT_CATEGORY_PREFIXES.Technical,
+    description: 'Something is broken or not working as expected',
+    active: true,
+    order: 1,
+    fields: [
+      { key: 'device', label: 'Device', type: 'text', required: true, placeholder: 'e.g. laptop, asset tag or model' },
+      {
+        key: 'os',
+        label: 'Operating system',
+        type: 'select',
+        required: true,
+        options: ['Windows', 'macOS', 'Linux', 'iOS', 'Android', 'Other'],
+      },
+      { key: 'affectedSystem', label: 'Affected system', type: 'text', required: true, placeholder: 'e.g. email, VPN, payroll' },
+    ],
+  },
+  {
+    id: 'facilities',
+    name: 'Facilities',
+    prefix: DEFAULT_CATEGORY_PREFIXES.Facilities,
+    description: 'Buildings, desks, furniture, cleaning and maintenance',
+    active: true,
+    order: 2,
+    fields: [],
+  },
+  {
+    id: 'access',
+    name: 'Access',
+    prefix: DEFAULT_CATEGORY_PREFIXES.Access,
+    description: 'Accounts, permissions, badges and keys',
+    active: true,
+    order: 3,
+    fields: [],
+  },
+  {
+    id: 'hr',
+    name: 'HR',
+    prefix: DEFAULT_CATEGORY_PREFIXES.HR,
+    description: 'Employment, payroll, leave and other people matters',
+    active: true,
+    order: 4,
+    fields: [],
+  },
+];
+
+const PREFIX_PATTERN = /^[A-Z0-9]{1,4}$/;
+
+/**
+ * Derives the document ID of a new category from its name
+ */
+export function getCategoryId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Converts a stored category document, filling gaps from the matching default
+ */
+function toTicketCategory(id: string, data: Record<string, any>): TicketCategory {
+  const fallback = DEFAULT_CATEGORIES.find(category => category.id === id);
+
+  return {
+    id,
+    name: data.name || fallback?.name || id,
+    prefix: data.prefix || fallback?.prefix || (data.name || id).charAt(0).toUpperCase(),
+    description: data.description ?? fallback?.description ?? '',
+    active: data.active ?? fallback?.active ?? true,
+    order: typeof data.order === 'number' ? data.order : fallback?.order ?? DEFAULT_CATEGORIES.length,
+    fields: Array.isArray(data.fields) ? normalizeIntakeFields(data.fields) : fallback?.fields ?? [],
+  };
+}
+
+/**
+ * Gets all categories in display order, including inactive ones
+ */
+export async function getCategories(): Promise<TicketCategory[]> {
+  const categories = new Map(DEFAULT_CATEGORIES.map(category => [category.id, category]));
+
+  try {
+    const querySnapshot = await getDocs(collection(db, 'categories'));
+    querySnapshot.forEach(categoryDoc => {
+      categories.set(categoryDoc.id, toTicketCategory(categoryDoc.id, categoryDoc.data()));
+    });
+  } catch (error) {
+    console.error('Error getting categories:', error);
+  }
+
+  return [...categories.values()].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+}
+
+/**
+ * Gets the categories a new request can be filed under
+ */
+export async function getActiveCategories(): Promise<TicketCategory[]> {
+  return (await getCategories()).filter(category => category.active);
+}
+
+/**
+ * Gets the intake fields asked for a category, by category name
+ */
+export function getCategoryFields(categories: TicketCategory[], categoryName: string): IntakeField[] {
+  return categories.find(category => category.name === categoryName)?.fields || [];
+}
+
+/**
+ * Validates a category before it is saved. Names and prefixes must be unique
+ * so each ticket ID maps back to exactly one category. A new category is checked
+ * against every existing one, since its ID comes from its name and saving it
+ * over an existing document would replace that category.
+ */
+export function validateCategory(category: TicketCategory, existing: TicketCategory[], isNew = false): CategoryErrors {
+  const errors: CategoryErrors = {};
+  const others = isNew ? existing : existing.filter(other => other.id !== category.id);
+
+  if (!category.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (!getCategoryId(category.name)) {
+    errors.name = 'Name must contain letters or numbers';
+  } else if (others.some(other => other.name.toLowerCase() === category.name.trim().toLowerCase())) {
+    errors.name = 'A category with this name already exists';
+  } else if (isNew && existing.some(other => other.id === category.id)) {
+    errors.name = 'This name is too close to an existing category';
+  }
+
+  if (!PREFIX_PATTERN.test(category.prefix)) {
+    errors.prefix = 'Prefix must be 1 to 4 capital letters or digits';
+  } else if (others.some(other => other.prefix === category.prefix)) {
+    errors.prefix = 'This prefix is already used by another category';
+  }
+
+  if (!category.description.trim()) {
+    errors.description = 'Description is required';
+  }
+
+  return errors;
+}
+
+/**
+ * Creates or updates a category (administrators only)
+ */
+export async function saveCategory(category: TicketCategory): Promise<void> {
+  await setDoc(doc(db, 'categories', category.id), {
+    name: category.name.trim(),
+    prefix: category.prefix,
+    description: category.description.trim(),
+    active: category.active,
+    order: category.order,
+    fields: category.fields,
+    modifiedAt: serverTimestamp(),
+  }, { merge: true });
+}
+
+/**
+ * Gets the name and prefix saved on each category document, for resolveTicketIdFormat.
+ * Built-in categories without a document are left to the ticket ID settings.
+ */
+export async function getCategoryPrefixSources(): Promise<CategoryPrefixSource[]> {
+  const querySnapshot = await getDocs(collection(db, 'categories'));
+  return querySnapshot.docs.map(categoryDoc => {
+    const { name, prefix } = categoryDoc.data();
+    return { name, prefix };
+  });
+}
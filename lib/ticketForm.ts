@@ -0,0 +1,366 @@
+import { getTicketCcRecipients } from './ccRecipients';
+import { intakeValuesChanged, IntakeFormValues, IntakeValues, toIntakeFormValues } from './intakeFields';
+import {
+  AtomicUpdate,
+  FieldChange,
+  FieldChangeValue,
+  HistoryEntry,
+  Ticket,
+  TicketFields,
+  TicketRef,
+  TicketRepository,
+  TicketUpdate,
+} from './ticketRepository';
+import { TicketStatus } from './ticketStatus';
+import { DEFAULT_PRIORITY, isTicketPriority, TicketPriority } from '../shared/slaPolicy';
+
+// The form on the ticket detail screen: the values it shows for a ticket, which
+// fields differ between versions of it, and saving it without overwriting changes
+// someone else made since it was loaded
+
+export interface TicketFormData {
+  name: string;
+  phone: string;
+  email: string;
+  ccEmails: string[];
+  title: string;
+  details: string;
+  category: string;
+  customFields: IntakeFormValues;
+  priority: TicketPriority;
+  status: TicketStatus;  // Shown but not edited; status changes go through the workflow
+}
+
+export const EDITABLE_TICKET_FIELDS = [
+  'name',
+  'phone',
+  'email',
+  'ccEmails',
+  'title',
+  'details',
+  'category',
+  'customFields',
+  'priority',
+] as const;
+
+export type EditableTicketField = typeof EDITABLE_TICKET_FIELDS[number];
+
+export const TICKET_FIELD_LABELS: Record<EditableTicketField, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  ccEmails: 'CC recipients',
+  title: 'Title',
+  details: 'Details',
+  category: 'Category',
+  customFields: 'Additional details',
+  priority: 'Priority',
+};
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export class TicketEditConflictError extends Error {
+  constructor(public conflicts: EditableTicketField[], public latest: TicketFormData) {
+    super('Someone else changed the same fields of this ticket.');
+    this.name = 'TicketEditConflictError';
+  }
+}
+
+export class TicketRevertConflictError extends Error {
+  constructor(public fields: EditableTicketField[]) {
+    super('Later edits changed some of the same fields again.');
+    this.name = 'TicketRevertConflictError';
+  }
+}
+
+/**
+ * Gets the form values for a ticket as stored
+ */
+export function toTicketFormData(ticket: Ticket): TicketFormData {
+  return {
+    name: ticket.name,
+    phone: ticket.phone,
+    email: ticket.email,
+    ccEmails: getTicketCcRecipients(ticket),
+    title: ticket.title,
+    details: ticket.details,
+    category: ticket.category,
+    customFields: toIntakeFormValues(ticket.customFields),
+    // Tickets created before priorities existed are treated as Normal
+    priority: isTicketPriority(ticket.priority) ? ticket.priority : DEFAULT_PRIORITY,
+    status: ticket.status,
+  };
+}
+
+/**
+ * Checks whether one editable field differs between two versions of the form
+ */
+export function isFieldChanged(field: EditableTicketField, a: TicketFormData, b: TicketFormData): boolean {
+  switch (field) {
+    case 'ccEmails':
+      return a.ccEmails.join(',') !== b.ccEmails.join(',');
+    case 'customFields':
+      return intakeValuesChanged(a.customFields, b.customFields);
+    default:
+      return a[field] !== b[field];
+  }
+}
+
+/**
+ * Lists the editable fields that differ between two versions of the form
+ */
+export function getChangedFields(a: TicketFormData, b: TicketFormData): EditableTicketField[] {
+  return EDITABLE_TICKET_FIELDS.filter(field => isFieldChanged(field, a, b));
+}
+
+/**
+ * Checks whether the category's questions need answering again: only once the
+ * category or an answer is changed, so tickets filed before a question was added
+ * can still be edited otherwise
+ */
+export function isIntakeEdited(edited: TicketFormData, original: TicketFormData): boolean {
+  return isFieldChanged('category', edited, original) || isFieldChanged('customFields', edited, original);
+}
+
+/**
+ * Formats a field value for display, whether from the form or recorded in an edit entry
+ */
+export function formatChangeValue(value: FieldChangeValue | undefined): string {
+  if (Array.isArray(value)) {
+    return value.join(', ') || 'None';
+  }
+  if (value && typeof value === 'object') {
+    const answers = Object.entries(value).filter(([, answer]) => String(answer).trim());
+    return answers.map(([key, answer]) => `${key}: ${answer}`).join('\n') || 'None';
+  }
+  return value || 'None';
+}
+
+/**
+ * Formats a field of the form for display, e.g. in the merge dialog
+ */
+export function formatFieldValue(field: EditableTicketField, formData: TicketFormData): string {
+  return formatChangeValue(formData[field]);
+}
+
+/**
+ * Gets the label shown for a field changed by an edit
+ */
+export function getFieldLabel(field: keyof TicketFields): string {
+  return TICKET_FIELD_LABELS[field as EditableTicketField] || field;
+}
+
+/**
+ * Lists the fields that both the user and someone else changed, to different values,
+ * since the form was loaded
+ */
+export function findConflicts(
+  original: TicketFormData,
+  mine: TicketFormData,
+  theirs: TicketFormData
+): EditableTicketField[] {
+  return EDITABLE_TICKET_FIELDS.filter(field =>
+    isFieldChanged(field, mine, original)
+    && isFieldChanged(field, theirs, original)
+    && isFieldChanged(field, mine, theirs)
+  );
+}
+
+/**
+ * Combines the user's edits with the latest version of the ticket. Conflicting
+ * fields follow the user's choices (their own value unless told otherwise), fields
+ * only the user changed keep the user's value, and everything else takes the
+ * latest value.
+ */
+export function mergeFormData(
+  original: TicketFormData,
+  mine: TicketFormData,
+  theirs: TicketFormData,
+  choices: Partial<Record<EditableTicketField, ConflictChoice>> = {}
+): TicketFormData {
+  const conflicts = findConflicts(original, mine, theirs);
+  const merged: TicketFormData = { ...theirs };
+
+  EDITABLE_TICKET_FIELDS.forEach(field => {
+    const keepMine = conflicts.includes(field)
+      ? choices[field] !== 'theirs'
+      : isFieldChanged(field, mine, original);
+    if (keepMine) {
+      Object.assign(merged, { [field]: mine[field] });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Saves the fields the user changed since loading the form. The ticket is re-read
+ * in the same atomic step: if someone else changed any of the same fields in the
+ * meantime, nothing is written and a TicketEditConflictError lists them. Changes
+ * to other fields, notes and status changes don't conflict.
+ * storeCustomFields converts the form's answers to the values stored on the ticket.
+ * The change set is recorded as an 'edit' history entry by author, which is
+ * returned, or null when there was nothing left to write.
+ */
+export async function saveTicketEdits(
+  repository: TicketRepository,
+  ticketRef: TicketRef,
+  original: TicketFormData,
+  edited: TicketFormData,
+  author: string,
+  storeCustomFields: (edited: TicketFormData, ticket: Ticket) => IntakeValues
+): Promise<HistoryEntry | null> {
+  return repository.updateAtomically(ticketRef, (ticket) => {
+    const latest = toTicketFormData(ticket);
+
+    const conflicts = findConflicts(original, edited, latest);
+    if (conflicts.length > 0) {
+      throw new TicketEditConflictError(conflicts, latest);
+    }
+
+    const fields = getChangedFields(edited, original).filter(field => isFieldChanged(field, edited, latest));
+    if (fields.length === 0) {
+      return { update: null, result: null };
+    }
+
+    const set: Partial<TicketFields> = {};
+    fields.forEach(field => {
+      if (field !== 'customFields') {
+        Object.assign(set, { [field]: edited[field] });
+      }
+    });
+
+    // Which answers are kept depends on the category's questions
+    if (fields.includes('customFields') || fields.includes('category')) {
+      const answers = fields.includes('customFields') ? edited.customFields : latest.customFields;
+      set.customFields = storeCustomFields({ ...edited, customFields: answers }, ticket);
+    }
+
+    return buildEditUpdate(ticket, set, author);
+  });
+}
+
+/**
+ * Lists the fields a history entry changed that later edits changed again
+ */
+export function getLaterEditedFields(history: HistoryEntry[], index: number): EditableTicketField[] {
+  const laterFields = new Set(
+    history.slice(index + 1).flatMap(entry => (entry.changes || []).map(change => change.field))
+  );
+  return (history[index]?.changes || [])
+    .map(change => change.field)
+    .filter(isEditableField)
+    .filter(field => laterFields.has(field));
+}
+
+/**
+ * Reverts the edit recorded by a history entry: each field it changed gets back the
+ * value it had before, and other fields are left alone. The entry is identified by
+ * its position, which never changes because history is append-only. The history is
+ * re-read in the same atomic step; if later edits changed any of the same fields
+ * and the user hasn't confirmed overwriting them all (overwriteLaterEdits), nothing
+ * is written and a TicketRevertConflictError lists them. The revert is recorded as
+ * an 'edit' history entry by author, which is returned, or null when the fields
+ * already have their earlier values.
+ */
+export async function revertTicketToEntry(
+  repository: TicketRepository,
+  ticketRef: TicketRef,
+  index: number,
+  author: string,
+  overwriteLaterEdits: EditableTicketField[] = []
+): Promise<HistoryEntry | null> {
+  return repository.updateAtomically(ticketRef, (ticket) => {
+    const history = ticket.history || [];
+    if (!history[index]) {
+      throw new Error('That version is no longer in the ticket history.');
+    }
+
+    const laterEdits = getLaterEditedFields(history, index);
+    if (laterEdits.some(field => !overwriteLaterEdits.includes(field))) {
+      throw new TicketRevertConflictError(laterEdits);
+    }
+
+    // Only fields that differ from the current version are written and recorded
+    const latest = toTicketFormData(ticket);
+    const set: Partial<TicketFields> = {};
+    (history[index].changes || []).forEach(change => {
+      if (isEditableField(change.field)
+        && (change.field === 'customFields' || isChangeValueChanged(change.from, latest[change.field]))) {
+        Object.assign(set, { [change.field]: change.from });
+      }
+    });
+
+    return buildEditUpdate(ticket, set, author, history[index].id);
+  });
+}
+
+/**
+ * Completes an edit of the ticket's editable fields: records the change set as an
+ * 'edit' history entry and moves a legacy CC field to the list. Nothing is written
+ * when no field changes. SLA deadlines follow category and priority on the server.
+ */
+function buildEditUpdate(
+  ticket: Ticket,
+  set: Partial<TicketFields>,
+  author: string,
+  revertedEntryId?: string
+): AtomicUpdate<HistoryEntry | null> {
+  const latest = toTicketFormData(ticket);
+  const changes = getFieldChanges(ticket, latest, set);
+  if (changes.length === 0) {
+    return { update: null, result: null };
+  }
+
+  const labels = changes.map(change => getFieldLabel(change.field)).join(', ');
+  const entry: HistoryEntry = {
+    id: Date.now().toString(),
+    author,
+    timestamp: new Date(),
+    notes: revertedEntryId ? `Reverted ${labels} to an earlier version` : `Edited ${labels}`,
+    type: 'edit',
+    changes,
+    ...(revertedEntryId && { revertedEntryId }),
+  };
+
+  const update: TicketUpdate = { set, appendHistory: [entry] };
+  // Tickets still using the legacy single-string CC field are moved to the list on save
+  if (ticket.ccEmail !== undefined) {
+    set.ccEmails = set.ccEmails || latest.ccEmails;
+    update.remove = ['ccEmail'];
+  }
+
+  return { update, result: entry };
+}
+
+function isEditableField(field: string): field is EditableTicketField {
+  return (EDITABLE_TICKET_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Checks whether two values of a field recorded in change sets differ
+ */
+function isChangeValueChanged(a: FieldChangeValue | undefined, b: FieldChangeValue | undefined): boolean {
+  return JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+}
+
+/**
+ * Lists the editable fields an update sets to a new value, with the ticket's values
+ * before it. Values are recorded as the form shows them, so a legacy CC address or a
+ * missing priority appears as the value it stood for. Custom fields are recorded as
+ * stored, and only when their answers change.
+ */
+function getFieldChanges(ticket: Ticket, latest: TicketFormData, set: Partial<TicketFields>): FieldChange[] {
+  return EDITABLE_TICKET_FIELDS.flatMap((field): FieldChange[] => {
+    const value = set[field];
+    if (value === undefined) {
+      return [];
+    }
+    if (field === 'customFields') {
+      const before = ticket.customFields || {};
+      const changed = intakeValuesChanged(toIntakeFormValues(before), toIntakeFormValues(set.customFields));
+      return changed ? [{ field, from: before, to: set.customFields || {} }] : [];
+    }
+    return [{ field, from: latest[field], to: value as FieldChangeValue }];
+  });
+}
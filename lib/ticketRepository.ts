@@ -0,0 +1,174 @@
+import { Attachment } from './attachments';
+import { IntakeValues } from './intakeFields';
+import { TicketStatus } from './ticketStatus';
+import { StoredTime, TicketPriority, toDate } from '../shared/slaPolicy';
+
+// The ticket data model and the repository interface every screen reads and writes
+// tickets through. Implementations: lib/firestoreTicketRepository.ts for the app and
+// lib/memoryTicketRepository.ts for tests.
+
+/**
+ * A stored point in time: a Firestore Timestamp when read from Firestore, or a Date
+ */
+export type TicketTimestamp = StoredTime;
+
+export type HistoryEntryType = 'note' | 'edit' | 'status' | 'assignment';
+
+export type FieldChangeValue = string | string[] | IntakeValues | null;
+
+/**
+ * One field changed by an edit, with the values before and after it
+ */
+export interface FieldChange {
+  field: keyof TicketFields;
+  from: FieldChangeValue;
+  to: FieldChangeValue;
+}
+
+export interface HistoryEntry {
+  id: string;
+  author: string;
+  timestamp: TicketTimestamp;
+  notes: string;
+  type: HistoryEntryType;
+  fromStatus?: TicketStatus;     // Status entries
+  toStatus?: TicketStatus;
+  assigneeId?: string | null;    // Assignment entries
+  team?: string | null;
+  attachments?: Attachment[];    // Note entries
+  changes?: FieldChange[];       // Edit entries
+  revertedEntryId?: string;      // Edit entries that revert to the version before this entry
+}
+
+export interface Ticket {
+  id: string;                    // Document ID
+  ownerId: string;               // UID of the user who submitted the ticket
+  ticketId?: string | null;      // Display number, e.g. T-0042; null while provisional
+  ticketIdAliases?: string[];
+  ticketIdProvisional?: boolean;
+  name: string;
+  phone: string;
+  email: string;
+  ccEmails?: string[];
+  ccEmail?: string;              // Legacy single-string CC field, migrated to ccEmails on save
+  title: string;
+  details: string;
+  category: string;
+  customFields?: IntakeValues;
+  status: TicketStatus;
+  priority?: TicketPriority;
+  createdAt: TicketTimestamp | null; // null until the server has stamped a new ticket
+  modifiedAt?: TicketTimestamp | null;
+  firstResponseDueAt?: TicketTimestamp | null; // SLA deadlines, set by the server from category and priority
+  resolutionDueAt?: TicketTimestamp | null;
+  firstRespondedAt?: TicketTimestamp | null;
+  resolvedAt?: TicketTimestamp | null;
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  team?: string | null;
+  attachments?: Attachment[];
+  history?: HistoryEntry[];
+}
+
+/**
+ * The stored fields of a ticket, without its location
+ */
+export type TicketFields = Omit<Ticket, 'id' | 'ownerId'>;
+
+/**
+ * Fields supplied when creating a ticket; the repository stamps the times
+ */
+export type NewTicket = Omit<TicketFields, 'createdAt' | 'modifiedAt'>;
+
+export type TicketTimestampField = 'firstRespondedAt' | 'resolvedAt';
+
+/**
+ * Where a ticket lives: tickets are stored per submitting user
+ */
+export interface TicketRef {
+  ownerId: string;
+  id: string;
+}
+
+/**
+ * A change to a ticket. modifiedAt is always set to the time of the write.
+ */
+export interface TicketUpdate {
+  set?: Partial<TicketFields>;              // Values to write; null clears a field
+  setServerTime?: TicketTimestampField[];   // Fields set to the time of the write
+  remove?: (keyof TicketFields)[];          // Fields deleted from the ticket
+  appendHistory?: HistoryEntry[];
+  appendAttachments?: Attachment[];
+}
+
+/**
+ * Result of deciding an atomic update from a ticket's current state
+ */
+export interface AtomicUpdate<T> {
+  update: TicketUpdate | null;              // null leaves the ticket untouched
+  result: T;
+}
+
+/**
+ * Which tickets to list. With no filters, every user's tickets are returned.
+ */
+export interface TicketQuery {
+  ownerId?: string;     // Tickets submitted by this user
+  assigneeId?: string;  // Tickets assigned to this agent, across all users
+}
+
+export type Unsubscribe = () => void;
+
+export interface TicketRepository {
+  /** Reserves an ID for a new ticket, so files can be stored under it before it exists */
+  newRef(ownerId: string): TicketRef;
+  create(ref: TicketRef, ticket: NewTicket): Promise<void>;
+  get(ref: TicketRef): Promise<Ticket | null>;
+  update(ref: TicketRef, update: TicketUpdate): Promise<void>;
+  /**
+   * Reads the ticket and applies the update decided from its current state as one
+   * atomic step, so concurrent writers can't act on stale data
+   */
+  updateAtomically<T>(ref: TicketRef, decide: (ticket: Ticket) => AtomicUpdate<T>): Promise<T>;
+  /** Appends a note, adding its attachments to the ticket's files */
+  addNote(ref: TicketRef, note: HistoryEntry, options?: { firstResponse?: boolean }): Promise<void>;
+  /** Lists tickets, newest first */
+  query(query: TicketQuery): Promise<Ticket[]>;
+  /** Lists tickets, newest first, calling onChange again whenever they change */
+  subscribe(query: TicketQuery, onChange: (tickets: Ticket[]) => void, onError?: (error: Error) => void): Unsubscribe;
+  /** Gets one ticket, calling onChange again whenever it changes, with null once it no longer exists */
+  subscribeToTicket(ref: TicketRef, onChange: (ticket: Ticket | null) => void, onError?: (error: Error) => void): Unsubscribe;
+}
+
+/**
+ * Gets the epoch milliseconds of a stored time, or 0 when it is missing
+ */
+export function getTimestampMillis(value: TicketTimestamp | null | undefined): number {
+  return toDate(value)?.getTime() || 0;
+}
+
+/**
+ * Sort comparator putting the most recently created tickets first
+ */
+export function compareNewestFirst(a: Ticket, b: Ticket): number {
+  return getTimestampMillis(b.createdAt) - getTimestampMillis(a.createdAt);
+}
+
+/**
+ * Checks whether a ticket matches a query
+ */
+export function matchesTicketQuery(ticket: Ticket, query: TicketQuery): boolean {
+  return (query.ownerId === undefined || ticket.ownerId === query.ownerId)
+    && (query.assigneeId === undefined || ticket.assigneeId === query.assigneeId);
+}
+
+/**
+ * Builds the update that appends a note, shared by the repository implementations
+ */
+export function createNoteUpdate(note: HistoryEntry, options?: { firstResponse?: boolean }): TicketUpdate {
+  return {
+    appendHistory: [note],
+    ...(note.attachments && note.attachments.length > 0 && { appendAttachments: note.attachments }),
+    ...(options?.firstResponse && { setServerTime: ['firstRespondedAt'] as TicketTimestampField[] }),
+  };
+}
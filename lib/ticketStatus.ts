@@ -0,0 +1,162 @@
+import { TicketFields, TicketRef, TicketRepository, TicketTimestampField } from './ticketRepository';
+
+// Ticket status model and the workflow that governs how a ticket may move between statuses
+
+export type TicketStatus = 'New' | 'In Review' | 'Work In Progress' | 'Resolved' | 'Closed';
+
+/**
+ * All statuses in workflow order, used for dashboard counts and filters
+ */
+export const TICKET_STATUSES: TicketStatus[] = ['New', 'In Review', 'Work In Progress', 'Resolved', 'Closed'];
+
+export const INITIAL_TICKET_STATUS: TicketStatus = 'New';
+
+export interface StatusTransition {
+  to: TicketStatus;
+  label: string;
+}
+
+/**
+ * Allowed moves out of each status. Anything not listed here is rejected.
+ * Reopening a resolved ticket sends it back to Work In Progress; Closed is final.
+ */
+const STATUS_TRANSITIONS: Record<TicketStatus, StatusTransition[]> = {
+  'New': [
+    { to: 'In Review', label: 'Start Review' },
+    { to: 'Closed', label: 'Close' },
+  ],
+  'In Review': [
+    { to: 'Work In Progress', label: 'Start Work' },
+    { to: 'Resolved', label: 'Resolve' },
+    { to: 'Closed', label: 'Close' },
+  ],
+  'Work In Progress': [
+    { to: 'In Review', label: 'Back to Review' },
+    { to: 'Resolved', label: 'Resolve' },
+  ],
+  'Resolved': [
+    { to: 'Closed', label: 'Close' },
+    { to: 'Work In Progress', label: 'Reopen' },
+  ],
+  'Closed': [],
+};
+
+export interface StatusChangeEntry {
+  id: string;
+  author: string;
+  timestamp: Date;
+  notes: string;
+  type: 'status';
+  fromStatus: TicketStatus;
+  toStatus: TicketStatus;
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Cannot change status from "${from}" to "${to}".`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+/**
+ * Checks whether a raw value read from Firestore is a known status
+ */
+export function isTicketStatus(value: unknown): value is TicketStatus {
+  return typeof value === 'string' && (TICKET_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Gets the transitions available from the given status
+ */
+export function getAllowedTransitions(from: string): StatusTransition[] {
+  return isTicketStatus(from) ? STATUS_TRANSITIONS[from] : [];
+}
+
+/**
+ * Validates a single status move against the workflow
+ */
+export function canTransition(from: string, to: string): boolean {
+  return getAllowedTransitions(from).some(transition => transition.to === to);
+}
+
+/**
+ * Builds the history entry recorded for a status change
+ */
+export function createStatusChangeEntry(
+  from: TicketStatus,
+  to: TicketStatus,
+  author: string,
+  comment?: string
+): StatusChangeEntry {
+  const summary = `Status changed from ${from} to ${to}`;
+
+  return {
+    id: Date.now().toString(),
+    author,
+    timestamp: new Date(),
+    notes: comment?.trim() ? `${summary}: ${comment.trim()}` : summary,
+    type: 'status',
+    fromStatus: from,
+    toStatus: to,
+  };
+}
+
+/**
+ * Moves a ticket to a new status and records the change in its history.
+ * The current status is re-read atomically with the write so that a stale
+ * screen can never skip a step of the workflow.
+ */
+export async function changeTicketStatus(
+  repository: TicketRepository,
+  ticketRef: TicketRef,
+  to: TicketStatus,
+  author: string,
+  comment?: string
+): Promise<StatusChangeEntry> {
+  return repository.updateAtomically(ticketRef, (ticket) => {
+    const from = ticket.status;
+
+    if (!isTicketStatus(from) || !canTransition(from, to)) {
+      throw new InvalidStatusTransitionError(from, to);
+    }
+
+    const entry = createStatusChangeEntry(from, to, author, comment);
+
+    const set: Partial<TicketFields> = { status: to };
+    const setServerTime: TicketTimestampField[] = [];
+
+    // SLA tracking: the first move out of New is the first response, and the
+    // resolution clock stops on Resolved/Closed and restarts when reopened
+    if (!ticket.firstRespondedAt) {
+      setServerTime.push('firstRespondedAt');
+    }
+    if (to === 'Resolved' || to === 'Closed') {
+      if (!ticket.resolvedAt) {
+        setServerTime.push('resolvedAt');
+      }
+    } else if (ticket.resolvedAt) {
+      set.resolvedAt = null;
+    }
+
+    return { update: { set, setServerTime, appendHistory: [entry] }, result: entry };
+  });
+}
+
+/**
+ * Badge colours for each status
+ */
+export function getStatusBadgeStyle(status: string): { backgroundColor: string; color: string } {
+  switch (status.toLowerCase()) {
+    case 'new':
+      return { backgroundColor: '#dbeafe', color: '#1e40af' };
+    case 'in review':
+      return { backgroundColor: '#fef3c7', color: '#92400e' };
+    case 'work in progress':
+      return { backgroundColor: '#ecfdf5', color: '#065f46' };
+    case 'resolved':
+      return { backgroundColor: '#f3e8ff', color: '#7c3aed' };
+    case 'closed':
+    default:
+      return { backgroundColor: '#f3f4f6', color: '#374151' };
+  }
+}
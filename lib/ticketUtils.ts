@@ -1,107 +1,168 @@
 import { doc, getDoc, runTransaction } from 'firebase/firestore';
 import { db } from './firebase';
+import { getCategoryPrefixSources } from './ticketCategories';
+import {
+  buildTicketId,
+  DEFAULT_TICKET_ID_FORMAT,
+  parseTicketId,
+  resolveTicketIdFormat,
+  TicketIdFormat,
+} from '../shared/ticketIdFormat';
 
-// Utility functions for generating and managing ticket IDs with user counters
+// Utility functions for generating and managing ticket IDs from a global sequence
+
+// Counters shared by every user, so a ticket number identifies one ticket across the desk
+const TICKET_COUNTER_DOC = ['counters', 'tickets'] as const;
+
+// The ticket ID format (see TicketIdFormat); any field left out uses the default
+const TICKET_ID_SETTINGS_DOC = ['settings', 'ticketIds'] as const;
+
+/**
+ * Loads the configured ticket ID format, with each category's prefix applied.
+ * Read errors are thrown rather than replaced by the default format, which could
+ * number a ticket with the wrong prefix or padding.
+ */
+export async function getTicketIdFormat(): Promise<TicketIdFormat> {
+  const [settingsDoc, categories] = await Promise.all([
+    getDoc(doc(db, ...TICKET_ID_SETTINGS_DOC)),
+    getCategoryPrefixSources(),
+  ]);
+  return resolveTicketIdFormat(settingsDoc.data(), categories);
+}
+
+/**
+ * Gets the counter field of a category in the shared counters document
+ */
+function getCounterField(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+/**
+ * Checks whether any ticket has been numbered in a category. From then on the
+ * category's prefix is part of issued ticket IDs, so it can no longer change.
+ */
+export async function hasNumberedTickets(category: string): Promise<boolean> {
+  const counterDoc = await getDoc(doc(db, ...TICKET_COUNTER_DOC));
+  return (counterDoc.data()?.[getCounterField(category)] || 0) > 0;
+}
+
+// Retry schedule for ticket number transactions: 0.5s, 1s, 2s between attempts
+const TICKET_ID_MAX_ATTEMPTS = 4;
+const TICKET_ID_BASE_DELAY_MS = 500;
+
+/**
+ * Thrown when no ticket number could be taken from the sequence after retrying.
+ * Callers store the ticket as provisional instead and the reconciliation job
+ * numbers it later, so a made-up number is never handed out.
+ */
+export class TicketIdUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super('Could not reserve a ticket number. The ticket will be numbered shortly.');
+    this.name = 'TicketIdUnavailableError';
+    this.cause = cause;
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Generates a user-specific sequential ticket ID using counters in the users table
+ * Takes the next number from the shared ticket counters in a single transaction
+ */
+async function reserveTicketId(category: string, format: TicketIdFormat): Promise<string> {
+  const counterField = getCounterField(category);
+
+  // Use Firestore transaction so concurrent submissions never share a number
+  return runTransaction(db, async (transaction) => {
+    const counterRef = doc(db, ...TICKET_COUNTER_DOC);
+    const counterDoc = await transaction.get(counterRef);
+
+    const nextNumber = ((counterDoc.exists() && counterDoc.data()[counterField]) || 0) + 1;
+
+    // set with merge creates the counter document on the first ticket.
+    // lastIncremented lets the security rules check that only this counter moved.
+    transaction.set(counterRef, { [counterField]: nextNumber, lastIncremented: counterField }, { merge: true });
+
+    return buildTicketId(category, nextNumber, format);
+  });
+}
+
+/**
+ * Generates a globally unique sequential ticket ID from the shared ticket counters
  * Technical requests: T-0001, T-0002, etc.
  * Service requests: S-0001, S-0002, etc.
- * Each user has their own counter sequence stored in their user document
+ * Each category has its own prefix and sequence; padding and the organization
+ * and year segments follow the configured format.
+ * Failed attempts, whether loading the format or the transaction, are retried with
+ * exponential backoff; if every attempt fails a TicketIdUnavailableError is thrown.
  */
-export async function generateUserTicketId(category: 'Service' | 'Technical', userId: string): Promise<string> {
-  const prefix = category === 'Technical' ? 'T' : 'S';
-  const counterField = category === 'Technical' ? 'technicalTicketCount' : 'serviceTicketCount';
-  
-  try {
-    // Use Firestore transaction to ensure sequential numbering per user
-    const ticketId = await runTransaction(db, async (transaction) => {
-      // Get user document
-      const userRef = doc(db, 'users', userId);
-      const userDoc = await transaction.get(userRef);
-      
-      if (!userDoc.exists()) {
-        throw new Error('User document not found. Please ensure user is properly registered.');
+export async function generateTicketId(category: string): Promise<string> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= TICKET_ID_MAX_ATTEMPTS; attempt++) {
+    try {
+      return await reserveTicketId(category, await getTicketIdFormat());
+    } catch (error) {
+      lastError = error;
+      console.error(`Error generating ticket ID (attempt ${attempt} of ${TICKET_ID_MAX_ATTEMPTS}):`, error);
+
+      if (attempt < TICKET_ID_MAX_ATTEMPTS) {
+        await delay(TICKET_ID_BASE_DELAY_MS * 2 ** (attempt - 1));
       }
-      
-      const userData = userDoc.data();
-      const nextNumber = (userData[counterField] || 0) + 1;
-      
-      // Update the counter in user document
-      const updateData = {
-        [counterField]: nextNumber
-      };
-      
-      transaction.update(userRef, updateData);
-      
-      // Return the formatted ticket ID
-      const paddedNum = nextNumber.toString().padStart(4, '0');
-      return `${prefix}-${paddedNum}`;
-    });
-    
-    return ticketId;
-  } catch (error) {
-    console.error('Error generating user ticket ID:', error);
-    // Fallback to random number if transaction fails
-    const randomNum = Math.floor(Math.random() * 9999) + 1;
-    const paddedNum = randomNum.toString().padStart(4, '0');
-    return `${prefix}-${paddedNum}`;
+    }
   }
+
+  throw new TicketIdUnavailableError(lastError);
 }
 
 /**
- * Gets current counter values for a user
+ * Checks whether a search query matches a ticket's ID or any of its aliases.
+ * Tickets numbered before the global sequence keep their old per-user IDs
+ * (e.g. T-0003) in ticketIdAliases so they can still be found by them.
  */
-export async function getUserCounters(userId: string): Promise<{ technical: number; service: number }> {
-  try {
-    const userRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userRef);
-    
-    if (userDoc.exists()) {
-      const userData = userDoc.data();
-      return {
-        technical: userData.technicalTicketCount || 0,
-        service: userData.serviceTicketCount || 0,
-      };
-    }
-    
-    return { technical: 0, service: 0 };
-  } catch (error) {
-    console.error('Error getting user counters:', error);
-    return { technical: 0, service: 0 };
-  }
+export function matchesTicketReference(
+  ticket: { ticketId?: string | null; ticketIdAliases?: string[] },
+  query: string
+): boolean {
+  const search = query.trim().toLowerCase();
+  if (!search) return false;
+
+  return [ticket.ticketId, ...(ticket.ticketIdAliases || [])]
+    .some(id => !!id && id.toLowerCase().includes(search));
 }
 
 /**
  * Validates if a ticket ID follows the expected format
  */
-export function isValidTicketId(ticketId: string): boolean {
-  const pattern = /^[TS]-\d{4}$/; // T-NNNN or S-NNNN
-  return pattern.test(ticketId);
+export function isValidTicketId(ticketId: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): boolean {
+  return parseTicketId(ticketId, format) !== null;
 }
 
 /**
  * Extracts category from ticket ID
  */
-export function getCategoryFromTicketId(ticketId: string): 'Service' | 'Technical' | null {
-  if (ticketId.startsWith('T-')) {
-    return 'Technical';
-  } else if (ticketId.startsWith('S-')) {
-    return 'Service';
-  }
-  return null;
+export function getCategoryFromTicketId(ticketId: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): string | null {
+  return parseTicketId(ticketId, format)?.category ?? null;
 }
 
 /**
  * Extracts the number from ticket ID
  */
-export function getTicketNumber(ticketId: string): number | null {
-  if (!isValidTicketId(ticketId)) {
-    return null;
+export function getTicketNumber(ticketId: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): number | null {
+  return parseTicketId(ticketId, format)?.number ?? null;
+}
+
+/**
+ * Gets the label shown for a ticket's number. Provisional tickets have no number
+ * until the reconciliation job assigns one, so they never show a guessed ID.
+ */
+export function getDisplayTicketId(ticket: { id: string; ticketId?: string | null; ticketIdProvisional?: boolean }): string {
+  if (ticket.ticketId) {
+    return ticket.ticketId;
+  }
+  if (ticket.ticketIdProvisional) {
+    return 'Pending';
   }
-  
-  const numberPart = ticketId.split('-')[1];
-  return parseInt(numberPart, 10);
+  return ticket.id.substring(0, 8).toUpperCase();
 }
 
 /**
@@ -0,0 +1,87 @@
+import { updateProfile, User } from 'firebase/auth';
+import { doc, DocumentData, runTransaction, updateDoc } from 'firebase/firestore';
+import { normalizeCcRecipients } from './ccRecipients';
+import { db } from './firebase';
+
+// The profile document at users/{uid}: created after authentication, and the
+// contact details a user keeps on it to prefill new requests
+
+export interface ProfileDetails {
+  name: string;
+  phone: string;
+  defaultCcEmails: string[];
+}
+
+/**
+ * The fields every profile document starts with
+ */
+function buildNewProfile(user: User, name?: string) {
+  return {
+    uid: user.uid,
+    name: name || user.displayName || '',
+    email: user.email || '',
+    role: 'user',
+    createdAt: new Date(),
+    technicalTicketCount: 0, // Initialize technical ticket counter
+    serviceTicketCount: 0,   // Initialize service ticket counter
+  };
+}
+
+/**
+ * Creates the user's profile document if it doesn't exist, or adds any starting
+ * fields it is missing and fills in a blank name. Other existing values, including
+ * the role, are never changed, so this is safe to run on every sign-in.
+ * Returns the profile as stored afterwards.
+ */
+export async function ensureUserProfile(user: User, name?: string): Promise<DocumentData> {
+  const profileRef = doc(db, 'users', user.uid);
+  const newProfile = buildNewProfile(user, name);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(profileRef);
+
+    if (!snapshot.exists()) {
+      transaction.set(profileRef, newProfile);
+      return newProfile;
+    }
+
+    const existing = snapshot.data();
+    const missing: DocumentData = Object.fromEntries(
+      Object.entries(newProfile).filter(([field]) => existing[field] === undefined)
+    );
+    // Signing up races the auth state listener, which may create the profile before the name is known
+    if (!existing.name && newProfile.name) {
+      missing.name = newProfile.name;
+    }
+
+    if (Object.keys(missing).length > 0) {
+      transaction.update(profileRef, missing);
+    }
+    return { ...existing, ...missing };
+  });
+}
+
+/**
+ * Saves the user's contact details to their profile document and keeps the
+ * Firebase Auth display name in step. Throws an Error carrying a user-facing message.
+ */
+export async function saveProfileDetails(user: User, details: ProfileDetails): Promise<ProfileDetails> {
+  const saved: ProfileDetails = {
+    name: details.name.trim(),
+    phone: details.phone.trim(),
+    defaultCcEmails: normalizeCcRecipients(details.defaultCcEmails, user.email || undefined),
+  };
+
+  try {
+    await updateDoc(doc(db, 'users', user.uid), { ...saved });
+
+    if (user.displayName !== saved.name) {
+      await updateProfile(user, { displayName: saved.name });
+    }
+
+    return saved;
+  } catch (error) {
+    console.error('Error saving profile:', error);
+    throw new Error('Could not save your profile. Please try again.');
+  }
+}
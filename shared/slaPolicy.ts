@@ -0,0 +1,157 @@
+// SLA policy: response and resolution targets per category and priority.
+// Shared by the app and the Cloud Functions, so it must not import either.
+
+export type TicketPriority = 'Low' | 'Normal' | 'High' | 'Urgent';
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['Low', 'Normal', 'High', 'Urgent'];
+
+export const DEFAULT_PRIORITY: TicketPriority = 'Normal';
+
+export type SlaState = 'on-track' | 'at-risk' | 'breached' | 'met';
+
+export interface SlaTargets {
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+export interface SlaDueDates {
+  firstResponseDueAt: Date;
+  resolutionDueAt: Date;
+}
+
+/**
+ * A stored time: a Firestore Timestamp when read from Firestore, or a Date
+ */
+export type StoredTime = Date | { toDate(): Date };
+
+/**
+ * Fields of a ticket the SLA calculation reads
+ */
+export interface SlaTicket {
+  status: string;
+  createdAt: StoredTime | null;
+  firstResponseDueAt?: StoredTime | null;
+  resolutionDueAt?: StoredTime | null;
+  firstRespondedAt?: StoredTime | null;
+  resolvedAt?: StoredTime | null;
+}
+
+export interface SlaStatus {
+  firstResponse: SlaState;
+  resolution: SlaState;
+  overall: SlaState;
+}
+
+/**
+ * Share of the SLA window that may elapse before a target is considered at risk
+ */
+const AT_RISK_THRESHOLD = 0.75;
+
+const SLA_POLICY: Record<string, Record<TicketPriority, SlaTargets>> = {
+  Service: {
+    Low: { firstResponseHours: 24, resolutionHours: 120 },
+    Normal: { firstResponseHours: 8, resolutionHours: 72 },
+    High: { firstResponseHours: 4, resolutionHours: 24 },
+    Urgent: { firstResponseHours: 1, resolutionHours: 8 },
+  },
+  Technical: {
+    Low: { firstResponseHours: 24, resolutionHours: 96 },
+    Normal: { firstResponseHours: 8, resolutionHours: 48 },
+    High: { firstResponseHours: 2, resolutionHours: 16 },
+    Urgent: { firstResponseHours: 0.5, resolutionHours: 4 },
+  },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Converts a Firestore timestamp, Date, or epoch value to a Date
+ */
+export function toDate(value: StoredTime | number | string | null | undefined): Date | null {
+  if (!value) return null;
+  if (typeof value === 'object' && !(value instanceof Date)) return value.toDate();
+
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Checks whether a raw value read from Firestore is a known priority
+ */
+export function isTicketPriority(value: unknown): value is TicketPriority {
+  return typeof value === 'string' && (TICKET_PRIORITIES as string[]).includes(value);
+}
+
+// Categories without targets of their own follow the Service targets
+const DEFAULT_SLA_CATEGORY = 'Service';
+
+/**
+ * Gets the SLA targets for a category and priority
+ */
+export function getSlaTargets(category: string, priority: TicketPriority): SlaTargets {
+  return (SLA_POLICY[category] || SLA_POLICY[DEFAULT_SLA_CATEGORY])[priority];
+}
+
+/**
+ * Computes first-response and resolution due times from the moment a ticket was opened
+ */
+export function computeSlaDueDates(
+  category: string,
+  priority: TicketPriority,
+  openedAt: Date
+): SlaDueDates {
+  const targets = getSlaTargets(category, priority);
+
+  return {
+    firstResponseDueAt: new Date(openedAt.getTime() + targets.firstResponseHours * HOUR_MS),
+    resolutionDueAt: new Date(openedAt.getTime() + targets.resolutionHours * HOUR_MS),
+  };
+}
+
+/**
+ * Evaluates a single target: met if completed before the deadline, breached once
+ * past it, at risk when most of the window has elapsed
+ */
+function evaluateTarget(openedAt: Date | null, dueAt: Date | null, completedAt: Date | null, now: Date): SlaState {
+  if (!dueAt) return 'on-track';
+
+  if (completedAt) {
+    return completedAt.getTime() <= dueAt.getTime() ? 'met' : 'breached';
+  }
+
+  if (now.getTime() > dueAt.getTime()) return 'breached';
+
+  if (openedAt) {
+    const window = dueAt.getTime() - openedAt.getTime();
+    const elapsed = now.getTime() - openedAt.getTime();
+    if (window > 0 && elapsed / window >= AT_RISK_THRESHOLD) return 'at-risk';
+  }
+
+  return 'on-track';
+}
+
+/**
+ * Gets the SLA state of a ticket. The overall state is the worst of the two targets.
+ */
+export function getSlaStatus(ticket: SlaTicket, now: Date = new Date()): SlaStatus {
+  // A ticket still pending its server timestamp was created just now
+  const openedAt = toDate(ticket.createdAt) || now;
+
+  const firstResponse = evaluateTarget(
+    openedAt,
+    toDate(ticket.firstResponseDueAt),
+    toDate(ticket.firstRespondedAt),
+    now
+  );
+  const resolution = evaluateTarget(
+    openedAt,
+    toDate(ticket.resolutionDueAt),
+    toDate(ticket.resolvedAt),
+    now
+  );
+
+  const severity: SlaState[] = ['met', 'on-track', 'at-risk', 'breached'];
+  const overall = severity.indexOf(firstResponse) > severity.indexOf(resolution) ? firstResponse : resolution;
+
+  return { firstResponse, resolution, overall };
+}
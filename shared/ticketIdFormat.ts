@@ -0,0 +1,149 @@
+// The single definition of what ticket IDs look like. Generation, parsing and
+// validation are all derived from a TicketIdFormat so they can never disagree.
+// Shared by the app and the Cloud Functions, so it must not import either.
+
+export interface TicketIdFormat {
+  organizationPrefix?: string;    // e.g. 'ACME' gives ACME-T-0001
+  categoryPrefixes: Record<string, string>; // Category name -> letters, e.g. { Technical: 'T' }
+  minDigits: number;              // Numbers are zero-padded to at least this many digits
+  includeYear: boolean;           // Adds the year the ticket was opened, e.g. T-2025-0001
+}
+
+export interface ParsedTicketId {
+  organizationPrefix: string | null;
+  categoryPrefix: string;
+  category: string | null;
+  year: number | null;
+  number: number;
+}
+
+// Prefixes of the built-in categories (DEFAULT_CATEGORIES in lib/ticketCategories.ts).
+// The server numbers tickets with these too, so they are only defined here.
+export const DEFAULT_CATEGORY_PREFIXES = {
+  Service: 'S',
+  Technical: 'T',
+  Facilities: 'F',
+  Access: 'A',
+  HR: 'HR',
+};
+
+export const DEFAULT_TICKET_ID_FORMAT: TicketIdFormat = {
+  categoryPrefixes: { ...DEFAULT_CATEGORY_PREFIXES },
+  minDigits: 4,
+  includeYear: false,
+};
+
+const SEPARATOR = '-';
+const PREFIX_PATTERN = /^[A-Z0-9]+$/;
+
+// A stored category document's name and ticket ID prefix
+export interface CategoryPrefixSource {
+  name?: unknown;
+  prefix?: unknown;
+}
+
+/**
+ * Builds a ticket format from stored settings and category documents, falling back
+ * to the defaults for anything missing or malformed. A category's prefix comes from
+ * its document if it has one, then from the settings, then from the built-in defaults.
+ */
+export function resolveTicketIdFormat(
+  settings?: Partial<TicketIdFormat> | null,
+  categories: CategoryPrefixSource[] = []
+): TicketIdFormat {
+  const organizationPrefix = settings?.organizationPrefix?.trim().toUpperCase();
+  const categoryPrefixes = { ...DEFAULT_TICKET_ID_FORMAT.categoryPrefixes };
+  const requestedPrefixes: Record<string, unknown> = { ...settings?.categoryPrefixes };
+
+  categories.forEach(({ name, prefix }) => {
+    if (typeof name === 'string' && name && prefix) {
+      requestedPrefixes[name] = prefix;
+    }
+  });
+
+  Object.entries(requestedPrefixes).forEach(([category, prefix]) => {
+    const normalized = typeof prefix === 'string' ? prefix.trim().toUpperCase() : '';
+    if (PREFIX_PATTERN.test(normalized)) {
+      categoryPrefixes[category] = normalized;
+    }
+  });
+
+  const requestedDigits = settings?.minDigits;
+  const minDigits = typeof requestedDigits === 'number' && Number.isInteger(requestedDigits) && requestedDigits >= 1
+    ? requestedDigits
+    : DEFAULT_TICKET_ID_FORMAT.minDigits;
+
+  return {
+    ...(organizationPrefix && PREFIX_PATTERN.test(organizationPrefix) ? { organizationPrefix } : {}),
+    categoryPrefixes,
+    minDigits,
+    includeYear: settings?.includeYear === true,
+  };
+}
+
+/**
+ * Gets the prefix letters for a category. Categories without a configured prefix
+ * use their first letter.
+ */
+export function getCategoryPrefix(category: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): string {
+  return format.categoryPrefixes[category] || category.trim().charAt(0).toUpperCase() || 'X';
+}
+
+/**
+ * Builds a ticket ID, e.g. T-0042, ACME-S-0007 or T-2025-0042
+ */
+export function buildTicketId(
+  category: string,
+  ticketNumber: number,
+  format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT,
+  openedAt: Date = new Date()
+): string {
+  const segments = [
+    format.organizationPrefix,
+    getCategoryPrefix(category, format),
+    format.includeYear ? openedAt.getFullYear().toString() : undefined,
+    ticketNumber.toString().padStart(format.minDigits, '0'),
+  ];
+
+  return segments.filter(Boolean).join(SEPARATOR);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the pattern matching IDs of a format. The organization prefix and year
+ * segment are optional so IDs issued before either was switched on still parse.
+ * Any number of digits is accepted, since numbers grow past the padding and IDs
+ * issued before the padding was raised keep their shorter numbers.
+ */
+function getTicketIdPattern(format: TicketIdFormat): RegExp {
+  const categoryPrefixes = Object.values(format.categoryPrefixes)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const organization = format.organizationPrefix ? `(?:(${escapeRegExp(format.organizationPrefix)})-)?` : '()';
+
+  return new RegExp(`^${organization}(${categoryPrefixes})-(?:(\\d{4})-)?(\\d+)$`);
+}
+
+/**
+ * Splits a ticket ID into its segments, or returns null if it isn't one
+ */
+export function parseTicketId(ticketId: string, format: TicketIdFormat = DEFAULT_TICKET_ID_FORMAT): ParsedTicketId | null {
+  const match = getTicketIdPattern(format).exec(ticketId.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, organizationPrefix, categoryPrefix, year, numberPart] = match;
+  const category = Object.keys(format.categoryPrefixes)
+    .find(name => format.categoryPrefixes[name] === categoryPrefix) || null;
+
+  return {
+    organizationPrefix: organizationPrefix || null,
+    categoryPrefix,
+    category,
+    year: year ? parseInt(year, 10) : null,
+    number: parseInt(numberPart, 10),
+  };
+}
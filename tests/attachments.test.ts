@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AttachmentStorage, createLocalAttachmentStorage } from '@/lib/attachmentStorage';
+import { MAX_ATTACHMENT_SIZE, PendingAttachment, uploadAttachments, validateAttachment } from '@/lib/attachments';
+import { USERS } from './support/fixtures';
+
+// Attachment limits and uploads, stored on the local filesystem instead of Firebase Storage
+
+const ticket = { ownerId: USERS.alice.uid, ticketDocId: 'alice-printer' };
+
+function buildFile(id: string, name: string, contents: string, overrides: Partial<PendingAttachment> = {}): PendingAttachment {
+  return {
+    id,
+    uri: `data:text/plain,${encodeURIComponent(contents)}`,
+    name,
+    contentType: 'text/plain',
+    size: contents.length,
+    ...overrides,
+  };
+}
+
+describe('validateAttachment', () => {
+  it('accepts images, PDFs and text files within the size limit', () => {
+    expect(validateAttachment({ name: 'error.png', contentType: 'image/png', size: 2048 })).toBeNull();
+    expect(validateAttachment({ name: 'manual.pdf', contentType: 'application/pdf', size: MAX_ATTACHMENT_SIZE })).toBeNull();
+  });
+
+  it('rejects other types and oversized files', () => {
+    expect(validateAttachment({ name: 'setup.exe', contentType: 'application/octet-stream', size: 10 }))
+      .toBe('setup.exe: only images, PDFs and text files can be attached');
+    expect(validateAttachment({ name: 'huge.png', contentType: 'image/png', size: MAX_ATTACHMENT_SIZE + 1 }))
+      .toBe('huge.png: files must be 10.0 MB or smaller');
+  });
+});
+
+describe('uploadAttachments', () => {
+  let rootDir: string;
+  let storage: AttachmentStorage;
+
+  const storedFiles = async () =>
+    fs.readdir(path.join(rootDir, 'tickets', ticket.ownerId, ticket.ticketDocId)).catch(() => []);
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    storage = createLocalAttachmentStorage(rootDir, fs);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores the files under the ticket and returns their metadata', async () => {
+    const uploaded = await uploadAttachments(storage, [buildFile('a1', 'printer log.txt', 'Offline at 09:00')], ticket, USERS.alice.name);
+
+    expect(uploaded).toEqual([expect.objectContaining({
+      id: 'a1',
+      name: 'printer log.txt',
+      size: 16,
+      path: 'tickets/alice/alice-printer/a1-printer_log.txt',
+      uploadedBy: USERS.alice.name,
+    })]);
+    expect(uploaded[0].url).toBe(`file://${rootDir}/tickets/alice/alice-printer/a1-printer_log.txt`);
+    expect(await fs.readFile(path.join(rootDir, uploaded[0].path), 'utf8')).toBe('Offline at 09:00');
+  });
+
+  it('rejects files over the limit before uploading anything', async () => {
+    const files = [
+      buildFile('a1', 'log.txt', 'Offline'),
+      buildFile('a2', 'huge.txt', 'x', { size: MAX_ATTACHMENT_SIZE + 1 }),
+    ];
+
+    await expect(uploadAttachments(storage, files, ticket, USERS.alice.name)).rejects.toThrow('huge.txt: files must be');
+    expect(await storedFiles()).toEqual([]);
+  });
+
+  it('checks the size of files the picker reported no size for', async () => {
+    const huge = buildFile('a1', 'huge.txt', '', {
+      uri: `data:text/plain,${'x'.repeat(MAX_ATTACHMENT_SIZE + 1)}`,
+      size: 0,
+    });
+
+    await expect(uploadAttachments(storage, [huge], ticket, USERS.alice.name)).rejects.toThrow('huge.txt: files must be');
+    expect(await storedFiles()).toEqual([]);
+  });
+
+  it('removes the files already stored when a later one fails', async () => {
+    const files = [
+      buildFile('a1', 'log.txt', 'Offline'),
+      buildFile('a2', 'missing.txt', '', { uri: 'file:///does/not/exist.txt' }),
+    ];
+
+    await expect(uploadAttachments(storage, files, ticket, USERS.alice.name)).rejects.toThrow();
+    expect(await storedFiles()).toEqual([]);
+  });
+});
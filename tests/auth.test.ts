@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { applyActionCode } from 'firebase/auth';
+import {
+  changePassword,
+  getLoginErrorMessage,
+  getPasswordChangeErrorMessage,
+  getPasswordResetErrorMessage,
+  getSignupErrorMessage,
+  getVerificationErrorMessage,
+  loginWithEmail,
+  refreshEmailVerification,
+  sendPasswordReset,
+  sendVerificationEmail,
+  signupWithEmail,
+} from '@/lib/authService';
+import { ensureUserProfile, saveProfileDetails } from '@/lib/userProfile';
+import {
+  createAccount,
+  getEmailActionCodes,
+  readDocument,
+  resetEmulators,
+  seedDocuments,
+  seedFixtures,
+  signInAs,
+} from './support/emulator';
+import { USERS } from './support/fixtures';
+import { auth } from './support/firebase';
+
+describe('auth error messages', () => {
+  it('maps sign-in error codes to user-facing messages', () => {
+    const incorrect = 'Incorrect email or password. Please try again or reset your password.';
+    expect(getLoginErrorMessage('auth/invalid-credential')).toBe(incorrect);
+    expect(getLoginErrorMessage('auth/wrong-password')).toBe(incorrect);
+    expect(getLoginErrorMessage('auth/user-not-found')).toBe(incorrect);
+    expect(getLoginErrorMessage('auth/too-many-requests')).toMatch(/Too many failed login attempts/);
+    expect(getLoginErrorMessage('auth/something-new')).toMatch(/Login failed/);
+    expect(getLoginErrorMessage(undefined)).toMatch(/Login failed/);
+  });
+
+  it('maps sign-up error codes to user-facing messages', () => {
+    expect(getSignupErrorMessage('auth/email-already-in-use')).toMatch(/already exists/);
+    expect(getSignupErrorMessage('auth/weak-password')).toMatch(/at least 6 characters/);
+    expect(getSignupErrorMessage('auth/something-new')).toBe('Signup failed. Please try again.');
+  });
+
+  it('maps password reset error codes to user-facing messages', () => {
+    expect(getPasswordResetErrorMessage('auth/invalid-email')).toBe('Invalid email address format.');
+    expect(getPasswordResetErrorMessage('auth/too-many-requests')).toMatch(/Too many reset requests/);
+    expect(getPasswordResetErrorMessage(undefined)).toMatch(/Could not send the reset email/);
+  });
+
+  it('maps password change error codes to user-facing messages', () => {
+    expect(getPasswordChangeErrorMessage('auth/invalid-credential')).toBe('Your current password is incorrect.');
+    expect(getPasswordChangeErrorMessage('auth/requires-recent-login')).toMatch(/sign in again/);
+    expect(getPasswordChangeErrorMessage(undefined)).toMatch(/Could not change your password/);
+  });
+
+  it('maps email verification error codes to user-facing messages', () => {
+    expect(getVerificationErrorMessage('auth/too-many-requests')).toMatch(/Too many verification emails/);
+    expect(getVerificationErrorMessage('auth/user-token-expired')).toMatch(/sign in again/);
+    expect(getVerificationErrorMessage(undefined)).toMatch(/Could not send the verification email/);
+  });
+});
+
+describe('signup and login', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  it('creates an account and its profile on signup', async () => {
+    const user = await signupWithEmail('dana@example.com', 'dana-password', 'Dana Diaz');
+
+    expect(auth.currentUser?.uid).toBe(user.uid);
+    expect(user.displayName).toBe('Dana Diaz');
+
+    const profile = await readDocument(`users/${user.uid}`);
+    expect(profile).toMatchObject({
+      uid: user.uid,
+      name: 'Dana Diaz',
+      email: 'dana@example.com',
+      role: 'user',
+    });
+  });
+
+  it('rejects signup with an email that already has an account', async () => {
+    await expect(signupWithEmail(USERS.alice.email, 'another-password', 'Alice Again'))
+      .rejects.toThrow('An account with this email already exists. Please sign in instead.');
+  });
+
+  it('rejects signup with a weak password', async () => {
+    await expect(signupWithEmail('erin@example.com', '123', 'Erin Evans'))
+      .rejects.toThrow(/Password is too weak/);
+  });
+
+  it('signs in with the right password', async () => {
+    const user = await loginWithEmail(USERS.alice.email, USERS.alice.password);
+
+    expect(user.uid).toBe(USERS.alice.uid);
+    expect(auth.currentUser?.uid).toBe(USERS.alice.uid);
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(loginWithEmail(USERS.alice.email, 'not-the-password'))
+      .rejects.toThrow('Incorrect email or password. Please try again or reset your password.');
+    expect(auth.currentUser).toBeNull();
+  });
+
+  it('rejects an email with no account with the same message as a wrong password', async () => {
+    await expect(loginWithEmail('nobody@example.com', 'whatever-password'))
+      .rejects.toThrow('Incorrect email or password. Please try again or reset your password.');
+  });
+
+  it('finishes a signup that created the account but not the profile', async () => {
+    const dana = { uid: 'dana', name: 'Dana Diaz', email: 'dana@example.com', password: 'dana-password', role: 'user' } as const;
+    await createAccount(dana);
+
+    const user = await signupWithEmail(dana.email, dana.password, dana.name);
+
+    expect(user.uid).toBe('dana');
+    expect(await readDocument('users/dana')).toMatchObject({ name: 'Dana Diaz', role: 'user', technicalTicketCount: 0 });
+  });
+});
+
+describe('profile self-healing', () => {
+  const dana = { uid: 'dana', name: 'Dana Diaz', email: 'dana@example.com', password: 'dana-password', role: 'user' } as const;
+
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  it('creates a missing profile with initialized counters', async () => {
+    await createAccount(dana);
+    await signInAs(dana);
+
+    const profile = await ensureUserProfile(auth.currentUser!);
+
+    const expected = {
+      uid: 'dana',
+      name: 'Dana Diaz',
+      email: 'dana@example.com',
+      role: 'user',
+      technicalTicketCount: 0,
+      serviceTicketCount: 0,
+    };
+    expect(profile).toMatchObject(expected);
+    expect(await readDocument('users/dana')).toMatchObject(expected);
+  });
+
+  it('fills in missing fields without touching the rest', async () => {
+    await signInAs(USERS.bob);
+    await ensureUserProfile(auth.currentUser!);
+
+    const profile = await readDocument(`users/${USERS.bob.uid}`);
+    expect(profile).toMatchObject({ name: USERS.bob.name, role: 'agent', technicalTicketCount: 0, serviceTicketCount: 0 });
+    expect(profile?.createdAt.toDate()).toEqual(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('fills in a name left blank by an earlier run', async () => {
+    await seedDocuments({ 'users/alice': { uid: 'alice', name: '', email: USERS.alice.email, role: 'user' } });
+    await signInAs(USERS.alice);
+
+    await ensureUserProfile(auth.currentUser!, 'Alice Adams');
+
+    expect(await readDocument('users/alice')).toMatchObject({ name: 'Alice Adams', technicalTicketCount: 0 });
+  });
+
+  it('changes nothing on a complete profile', async () => {
+    await signInAs(USERS.alice);
+    const first = await ensureUserProfile(auth.currentUser!);
+    const second = await ensureUserProfile(auth.currentUser!, 'Someone Else');
+
+    expect(second).toEqual(first);
+    expect((await readDocument('users/alice'))?.name).toBe(USERS.alice.name);
+  });
+});
+
+describe('password reset', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  it('emails a reset link to an existing account', async () => {
+    await sendPasswordReset(USERS.alice.email);
+
+    const codes = await getEmailActionCodes();
+    expect(codes).toContainEqual(expect.objectContaining({ email: USERS.alice.email, requestType: 'PASSWORD_RESET' }));
+  });
+
+  it('reports success for an unknown email without sending anything', async () => {
+    await expect(sendPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+    const codes = await getEmailActionCodes();
+    expect(codes.filter(code => code.email === 'nobody@example.com')).toEqual([]);
+  });
+
+  it('rejects a malformed email', async () => {
+    await expect(sendPasswordReset('not-an-email')).rejects.toThrow('Invalid email address format.');
+  });
+});
+
+describe('email verification', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  const verificationCodesFor = async (email: string) =>
+    (await getEmailActionCodes()).filter(code => code.email === email && code.requestType === 'VERIFY_EMAIL');
+
+  it('emails a verification link on signup', async () => {
+    const user = await signupWithEmail('dana@example.com', 'dana-password', 'Dana Diaz');
+
+    expect(user.emailVerified).toBe(false);
+    expect(await verificationCodesFor('dana@example.com')).toHaveLength(1);
+  });
+
+  it('resends the verification link on request', async () => {
+    const user = await signupWithEmail('dana@example.com', 'dana-password', 'Dana Diaz');
+    await sendVerificationEmail(user);
+
+    expect(await verificationCodesFor('dana@example.com')).toHaveLength(2);
+  });
+
+  it('picks up a verification made outside the app', async () => {
+    const user = await signupWithEmail('dana@example.com', 'dana-password', 'Dana Diaz');
+    expect(await refreshEmailVerification(user)).toBe(false);
+
+    const [code] = await verificationCodesFor('dana@example.com');
+    await applyActionCode(auth, code.oobCode);
+
+    expect(await refreshEmailVerification(user)).toBe(true);
+    expect((await user.getIdTokenResult()).claims.email_verified).toBe(true);
+  });
+});
+
+describe('profile', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+    await signInAs(USERS.alice);
+  });
+
+  it('saves contact details to the profile and the display name to Auth', async () => {
+    const saved = await saveProfileDetails(auth.currentUser!, {
+      name: ' Alice Anders ',
+      phone: '555-0100',
+      defaultCcEmails: ['team@example.com', 'TEAM@example.com', USERS.alice.email],
+    });
+
+    expect(saved).toEqual({ name: 'Alice Anders', phone: '555-0100', defaultCcEmails: ['team@example.com'] });
+    expect(await readDocument(`users/${USERS.alice.uid}`)).toMatchObject({ ...saved });
+    expect(auth.currentUser?.displayName).toBe('Alice Anders');
+  });
+
+  it('changes the password after checking the current one', async () => {
+    await changePassword(auth.currentUser!, USERS.alice.password, 'alice-new-password');
+
+    await expect(loginWithEmail(USERS.alice.email, USERS.alice.password)).rejects.toThrow(/Incorrect email or password/);
+    await expect(loginWithEmail(USERS.alice.email, 'alice-new-password')).resolves.toMatchObject({ uid: USERS.alice.uid });
+  });
+
+  it('keeps the password when the current one is wrong', async () => {
+    await expect(changePassword(auth.currentUser!, 'not-the-password', 'alice-new-password'))
+      .rejects.toThrow('Your current password is incorrect.');
+  });
+});
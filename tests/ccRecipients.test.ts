@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  findInvalidEmails,
+  getTicketCcRecipients,
+  isValidEmail,
+  normalizeCcRecipients,
+  parseEmailList,
+} from '@/lib/ccRecipients';
+import { USERS } from './support/fixtures';
+
+// CC recipient lists on tickets, without Firebase
+
+describe('parseEmailList', () => {
+  it('splits on commas, semicolons and whitespace', () => {
+    expect(parseEmailList(' dave@example.com, erin@example.com;frank@example.com\ngrace@example.com ,, '))
+      .toEqual(['dave@example.com', 'erin@example.com', 'frank@example.com', 'grace@example.com']);
+  });
+});
+
+describe('findInvalidEmails', () => {
+  it('lists each address that is not an email', () => {
+    expect(isValidEmail(' dave@example.com ')).toBe(true);
+    expect(findInvalidEmails(['dave@example.com', 'erin@example', 'frank', 'grace@@example.com', 'a b@example.com']))
+      .toEqual(['erin@example', 'frank', 'grace@@example.com', 'a b@example.com']);
+  });
+});
+
+describe('normalizeCcRecipients', () => {
+  it('drops blanks and duplicates, keeping the first spelling', () => {
+    expect(normalizeCcRecipients(['Dave@Example.com', ' dave@example.com', '', 'erin@example.com ']))
+      .toEqual(['Dave@Example.com', 'erin@example.com']);
+  });
+
+  it('leaves out the submitter, who is notified anyway', () => {
+    expect(normalizeCcRecipients(['ALICE@example.com', 'dave@example.com'], ` ${USERS.alice.email} `))
+      .toEqual(['dave@example.com']);
+  });
+});
+
+describe('getTicketCcRecipients', () => {
+  it('reads the recipient list', () => {
+    expect(getTicketCcRecipients({ ccEmails: ['dave@example.com', USERS.alice.email], email: USERS.alice.email }))
+      .toEqual(['dave@example.com']);
+  });
+
+  it('reads the legacy single CC string of older tickets', () => {
+    const legacy = { ccEmail: 'dave@example.com; Erin@example.com, dave@example.com', email: USERS.alice.email };
+
+    expect(getTicketCcRecipients(legacy)).toEqual(['dave@example.com', 'Erin@example.com']);
+    expect(getTicketCcRecipients({ ccEmail: '', email: USERS.alice.email })).toEqual([]);
+  });
+
+  it('prefers the list once a ticket has one', () => {
+    expect(getTicketCcRecipients({ ccEmails: [], ccEmail: 'dave@example.com' })).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from '@jest/globals';
+import { createDraftStore, createMemoryDraftStorage, getDraftKey } from '@/lib/drafts';
+import { USERS } from './support/fixtures';
+
+// Drafts kept on the device, without AsyncStorage
+
+describe('draft store', () => {
+  function setup() {
+    const storage = createMemoryDraftStorage();
+    return { storage, drafts: createDraftStore(storage) };
+  }
+
+  it('keeps a draft until it is discarded', async () => {
+    const { drafts } = setup();
+    const key = getDraftKey(USERS.alice.uid, 'new-request');
+
+    await drafts.save(key, { title: 'Printer is offline', details: 'Since Monday.' });
+
+    const draft = await drafts.load<{ title: string }>(key);
+    expect(draft?.value).toEqual({ title: 'Printer is offline', details: 'Since Monday.' });
+    expect(draft?.savedAt).toBeInstanceOf(Date);
+
+    await drafts.discard(key);
+    expect(await drafts.load(key)).toBeNull();
+  });
+
+  it('keeps each user\'s drafts apart', async () => {
+    const { drafts } = setup();
+
+    await drafts.save(getDraftKey(USERS.alice.uid, 'note/alice/alice-printer'), 'Still offline.');
+
+    expect(await drafts.load(getDraftKey(USERS.bob.uid, 'note/alice/alice-printer'))).toBeNull();
+  });
+
+  it('drops drafts it cannot read', async () => {
+    const { storage, drafts } = setup();
+    const key = getDraftKey(USERS.alice.uid, 'new-request');
+    storage.items.set(key, '{not json');
+
+    expect(await drafts.load(key)).toBeNull();
+    expect(storage.items.has(key)).toBe(false);
+  });
+});
@@ -0,0 +1,316 @@
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { beforeAll, beforeEach, describe, it } from '@jest/globals';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { HistoryEntry, HistoryEntryType } from '@/lib/ticketRepository';
+import { getTestEnvironment, resetEmulators, seedDocuments, seedFixtures } from './support/emulator';
+import { buildTicket, FixtureUser, USERS } from './support/fixtures';
+
+// Security rules in firestore.rules, exercised as each kind of user
+
+const { arrayUnion, serverTimestamp } = firebase.firestore.FieldValue;
+
+const ALICE_TICKET = 'users/alice/tickets/alice-printer';
+
+let environment: RulesTestEnvironment;
+
+const as = (user: FixtureUser) => environment.authenticatedContext(user.uid, { email_verified: true }).firestore();
+const asGuest = () => environment.unauthenticatedContext().firestore();
+const asStranger = () => environment.authenticatedContext('mallory').firestore();
+
+function buildNote(id: string, type: HistoryEntryType = 'note'): HistoryEntry {
+  return { id, author: 'Someone', timestamp: new Date(), notes: 'A note', type };
+}
+
+beforeAll(async () => {
+  environment = await getTestEnvironment();
+});
+
+beforeEach(async () => {
+  await resetEmulators();
+  await seedFixtures();
+});
+
+describe('user profiles', () => {
+  it('lets users read only their own profile', async () => {
+    await assertSucceeds(as(USERS.alice).doc('users/alice').get());
+    await assertFails(as(USERS.alice).doc('users/bob').get());
+    await assertFails(asGuest().doc('users/alice').get());
+  });
+
+  it('lets administrators read and list every profile', async () => {
+    await assertSucceeds(as(USERS.carol).doc('users/alice').get());
+    await assertSucceeds(as(USERS.carol).collection('users').where('role', 'in', ['agent', 'admin']).get());
+    await assertFails(as(USERS.bob).collection('users').where('role', 'in', ['agent', 'admin']).get());
+  });
+
+  it('keeps profiles hidden from signed-out visitors and other users', async () => {
+    await assertFails(asGuest().collection('users').where('email', '==', USERS.alice.email).limit(1).get());
+    await assertFails(asGuest().collection('users').get());
+    await assertFails(as(USERS.alice).collection('users').where('email', '==', USERS.bob.email).limit(1).get());
+  });
+
+  it('lets new users create their own profile as a regular user', async () => {
+    const profile = {
+      uid: 'dana',
+      name: 'Dana Diaz',
+      email: 'dana@example.com',
+      role: 'user',
+      createdAt: new Date(),
+      technicalTicketCount: 0,
+      serviceTicketCount: 0,
+    };
+    const dana = environment.authenticatedContext('dana').firestore();
+
+    await assertFails(dana.doc('users/dana').set({ ...profile, role: 'admin' }));
+    await assertFails(dana.doc('users/dana').set({ ...profile, technicalTicketCount: 12 }));
+    await assertFails(dana.doc('users/someone-else').set({ ...profile, uid: 'someone-else' }));
+    await assertSucceeds(dana.doc('users/dana').set(profile));
+  });
+
+  it('lets users fill in missing profile fields with their starting values', async () => {
+    await assertSucceeds(as(USERS.bob).doc('users/bob').update({ technicalTicketCount: 0, serviceTicketCount: 0 }));
+    await assertFails(as(USERS.alice).doc('users/alice').update({ technicalTicketCount: 5 }));
+    await assertFails(as(USERS.alice).doc('users/alice').update({ technicalTicketCount: 0, email: 'new@example.com' }));
+    await assertFails(as(USERS.alice).doc('users/bob').update({ technicalTicketCount: 0 }));
+  });
+
+  it('lets a profile repair fill in a blank name but not replace one', async () => {
+    await seedDocuments({ 'users/dana': { uid: 'dana', name: '', email: 'dana@example.com', role: 'user' } });
+    const dana = environment.authenticatedContext('dana').firestore();
+
+    await assertFails(as(USERS.alice).doc('users/alice').update({ name: 'Someone Else', technicalTicketCount: 0 }));
+    await assertSucceeds(dana.doc('users/dana').update({ name: 'Dana Diaz', technicalTicketCount: 0 }));
+  });
+
+  it('lets users edit their contact details but not change their role or counters', async () => {
+    await assertSucceeds(as(USERS.alice).doc('users/alice').update({ name: 'Alice A.' }));
+    await assertSucceeds(as(USERS.alice).doc('users/alice').update({ phone: '555-0100', defaultCcEmails: ['team@example.com'] }));
+    await assertFails(as(USERS.alice).doc('users/alice').update({ role: 'admin' }));
+    await assertFails(as(USERS.alice).doc('users/alice').update({ technicalTicketCount: 99 }));
+    await assertFails(as(USERS.alice).doc('users/bob').update({ name: 'Not Bob' }));
+  });
+
+  it('lets administrators change roles', async () => {
+    await assertSucceeds(as(USERS.carol).doc('users/alice').update({ role: 'agent' }));
+    await assertFails(as(USERS.bob).doc('users/alice').update({ role: 'agent' }));
+  });
+});
+
+describe('reading tickets', () => {
+  it('lets owners read their tickets and nobody else but staff', async () => {
+    await assertSucceeds(as(USERS.alice).doc(ALICE_TICKET).get());
+    await assertSucceeds(as(USERS.alice).collection('users/alice/tickets').get());
+    await assertFails(asStranger().doc(ALICE_TICKET).get());
+    await assertFails(asGuest().doc(ALICE_TICKET).get());
+  });
+
+  it('lets agents and administrators query every ticket', async () => {
+    await assertSucceeds(as(USERS.bob).doc(ALICE_TICKET).get());
+    await assertSucceeds(as(USERS.bob).collectionGroup('tickets').where('assigneeId', '==', 'bob').get());
+    await assertSucceeds(as(USERS.carol).collectionGroup('tickets').orderBy('createdAt', 'desc').get());
+    await assertFails(as(USERS.alice).collectionGroup('tickets').get());
+  });
+});
+
+describe('creating tickets', () => {
+  const newTicket = () => {
+    const { id, ownerId, createdAt, modifiedAt, ...ticket } = buildTicket(USERS.alice, { id: 'new', ticketId: 'T-0002' });
+    return { ...ticket, createdAt: serverTimestamp(), modifiedAt: serverTimestamp() };
+  };
+
+  it('lets users submit new tickets under their own account', async () => {
+    await assertSucceeds(as(USERS.alice).doc('users/alice/tickets/new').set(newTicket()));
+    await assertFails(as(USERS.bob).doc('users/alice/tickets/new').set(newTicket()));
+  });
+
+  it('requires a verified email address', async () => {
+    const unverified = environment.authenticatedContext(USERS.alice.uid, { email_verified: false }).firestore();
+    await assertFails(unverified.doc('users/alice/tickets/new').set(newTicket()));
+  });
+
+  it('rejects tickets that skip the workflow', async () => {
+    const tickets = as(USERS.alice).collection('users/alice/tickets');
+
+    await assertFails(tickets.doc('resolved').set({ ...newTicket(), status: 'Resolved' }));
+    await assertFails(tickets.doc('assigned').set({ ...newTicket(), assigneeId: 'bob' }));
+    await assertFails(tickets.doc('history').set({ ...newTicket(), history: [buildNote('1', 'status')] }));
+    await assertFails(tickets.doc('backdated').set({ ...newTicket(), createdAt: new Date('2020-01-01') }));
+  });
+
+  it('leaves the SLA deadlines to the server', async () => {
+    const tickets = as(USERS.alice).collection('users/alice/tickets');
+    const farOff = new Date('2030-01-01T00:00:00Z');
+
+    await assertFails(tickets.doc('deadlines').set({ ...newTicket(), firstResponseDueAt: farOff, resolutionDueAt: farOff }));
+  });
+
+  it('requires provisional tickets to be flagged', async () => {
+    const tickets = as(USERS.alice).collection('users/alice/tickets');
+
+    await assertSucceeds(tickets.doc('pending').set({ ...newTicket(), ticketId: null, ticketIdProvisional: true }));
+    await assertFails(tickets.doc('unflagged').set({ ...newTicket(), ticketId: null, ticketIdProvisional: false }));
+  });
+});
+
+describe('editing tickets', () => {
+  it('lets owners edit the request but not its workflow fields', async () => {
+    const ticket = as(USERS.alice).doc(ALICE_TICKET);
+
+    await assertSucceeds(ticket.update({ title: 'Printer still offline', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ status: 'Closed', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ assigneeId: 'alice', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ ticketId: 'T-9999', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ resolvedAt: serverTimestamp(), modifiedAt: serverTimestamp() }));
+  });
+
+  it('keeps everyone from moving the SLA deadlines', async () => {
+    const farOff = new Date('2030-01-01T00:00:00Z');
+    const deadlines = { firstResponseDueAt: farOff, resolutionDueAt: farOff, modifiedAt: serverTimestamp() };
+
+    await assertSucceeds(as(USERS.alice).doc(ALICE_TICKET).update({ priority: 'Urgent', modifiedAt: serverTimestamp() }));
+    await assertFails(as(USERS.alice).doc(ALICE_TICKET).update(deadlines));
+    await assertFails(as(USERS.alice).doc(ALICE_TICKET).update({ ...deadlines, priority: 'Low' }));
+    await assertFails(as(USERS.carol).doc(ALICE_TICKET).update(deadlines));
+  });
+
+  it('requires modifiedAt to be the server time', async () => {
+    const ticket = as(USERS.alice).doc(ALICE_TICKET);
+
+    await assertFails(ticket.update({ title: 'No timestamp' }));
+    await assertFails(ticket.update({ title: 'Client timestamp', modifiedAt: new Date() }));
+  });
+
+  it('keeps other users out', async () => {
+    await assertFails(asStranger().doc(ALICE_TICKET).update({ title: 'Hijacked', modifiedAt: serverTimestamp() }));
+  });
+
+  it('lets agents work tickets but not change status or assignment', async () => {
+    const ticket = as(USERS.bob).doc(ALICE_TICKET);
+
+    await assertSucceeds(ticket.update({ details: 'Clarified details', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ status: 'In Review', modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ assigneeId: 'bob', assigneeName: 'Bob Brown', modifiedAt: serverTimestamp() }));
+  });
+
+  it('lets an agent stamp the first response only once', async () => {
+    const ticket = as(USERS.bob).doc(ALICE_TICKET);
+    const reply = (id: string) => ({
+      history: arrayUnion(buildNote(id)),
+      firstRespondedAt: serverTimestamp(),
+      modifiedAt: serverTimestamp(),
+    });
+
+    await assertSucceeds(ticket.update(reply('reply-1')));
+    await assertFails(ticket.update(reply('reply-2')));
+  });
+
+  it('lets administrators move tickets through the workflow', async () => {
+    const ticket = as(USERS.carol).doc(ALICE_TICKET);
+
+    await assertFails(ticket.update({ status: 'Resolved', modifiedAt: serverTimestamp() }));
+    await assertSucceeds(ticket.update({
+      status: 'In Review',
+      firstRespondedAt: serverTimestamp(),
+      history: arrayUnion(buildNote('status-1', 'status')),
+      modifiedAt: serverTimestamp(),
+    }));
+    await assertSucceeds(ticket.update({
+      assigneeId: 'bob',
+      assigneeName: 'Bob Brown',
+      team: 'Technical Support',
+      history: arrayUnion(buildNote('assignment-1', 'assignment')),
+      modifiedAt: serverTimestamp(),
+    }));
+  });
+
+  it('never lets the creation time or ticket number change', async () => {
+    const ticket = as(USERS.carol).doc(ALICE_TICKET);
+
+    await assertFails(ticket.update({ createdAt: serverTimestamp(), modifiedAt: serverTimestamp() }));
+    await assertFails(ticket.update({ ticketId: 'T-0100', modifiedAt: serverTimestamp() }));
+  });
+});
+
+describe('ticket history', () => {
+  beforeEach(async () => {
+    const { id, ownerId, ...ticket } = buildTicket(USERS.alice, {
+      id: 'alice-printer',
+      ticketId: 'T-0001',
+      history: [buildNote('first')],
+    });
+    await seedDocuments({ [ALICE_TICKET]: ticket });
+  });
+
+  it('lets notes be appended', async () => {
+    await assertSucceeds(as(USERS.alice).doc(ALICE_TICKET).update({
+      history: arrayUnion(buildNote('second')),
+      modifiedAt: serverTimestamp(),
+    }));
+  });
+
+  it('lets an edit be saved with its change set', async () => {
+    const edit = {
+      ...buildNote('edit', 'edit'),
+      notes: 'Edited Title',
+      changes: [{ field: 'title', from: 'Printer is offline', to: 'Printer jammed' }],
+    };
+
+    await assertSucceeds(as(USERS.bob).doc(ALICE_TICKET).update({
+      title: 'Printer jammed',
+      history: arrayUnion(edit),
+      modifiedAt: serverTimestamp(),
+    }));
+  });
+
+  it('never lets entries be edited or removed, even by administrators', async () => {
+    const edited = { ...buildNote('first'), notes: 'Rewritten' };
+
+    await assertFails(as(USERS.alice).doc(ALICE_TICKET).update({ history: [], modifiedAt: serverTimestamp() }));
+    await assertFails(as(USERS.carol).doc(ALICE_TICKET).update({ history: [], modifiedAt: serverTimestamp() }));
+    await assertFails(as(USERS.carol).doc(ALICE_TICKET).update({ history: [edited], modifiedAt: serverTimestamp() }));
+  });
+
+  it('only lets administrators record status and assignment entries', async () => {
+    await assertFails(as(USERS.alice).doc(ALICE_TICKET).update({
+      history: arrayUnion(buildNote('fake-status', 'status')),
+      modifiedAt: serverTimestamp(),
+    }));
+    await assertFails(as(USERS.bob).doc(ALICE_TICKET).update({
+      history: arrayUnion(buildNote('fake-assignment', 'assignment')),
+      modifiedAt: serverTimestamp(),
+    }));
+  });
+});
+
+describe('ticket counters', () => {
+  const counters = (user: FixtureUser) => as(user).doc('counters/tickets');
+
+  it('lets a signed-in user take the next number of one category', async () => {
+    await assertSucceeds(counters(USERS.alice).set({ technical: 2, lastIncremented: 'technical' }, { merge: true }));
+    await assertSucceeds(counters(USERS.alice).set({ facilities: 1, lastIncremented: 'facilities' }, { merge: true }));
+  });
+
+  it('rejects any other change', async () => {
+    await assertFails(counters(USERS.alice).set({ technical: 5, lastIncremented: 'technical' }, { merge: true }));
+    await assertFails(counters(USERS.alice).set({ technical: 0, lastIncremented: 'technical' }, { merge: true }));
+    await assertFails(counters(USERS.alice).set({ technical: 2, service: 2, lastIncremented: 'technical' }, { merge: true }));
+    await assertFails(counters(USERS.alice).set({ technical: 2 }, { merge: true }));
+    await assertFails(asGuest().doc('counters/tickets').set({ technical: 2, lastIncremented: 'technical' }, { merge: true }));
+  });
+});
+
+describe('configuration', () => {
+  it('lets signed-in users read categories and settings', async () => {
+    await assertSucceeds(as(USERS.alice).collection('categories').get());
+    await assertSucceeds(as(USERS.alice).doc('settings/ticketIds').get());
+    await assertFails(asGuest().collection('categories').get());
+  });
+
+  it('lets only administrators change them', async () => {
+    await assertFails(as(USERS.bob).doc('categories/hr').set({ name: 'HR', prefix: 'H' }, { merge: true }));
+    await assertFails(as(USERS.alice).doc('settings/ticketIds').set({ minDigits: 2 }));
+    await assertSucceeds(as(USERS.carol).doc('categories/hr').set({ name: 'HR', prefix: 'H' }, { merge: true }));
+    await assertSucceeds(as(USERS.carol).doc('settings/ticketIds').set({ minDigits: 5 }, { merge: true }));
+  });
+});
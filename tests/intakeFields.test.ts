@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  IntakeField,
+  intakeValuesChanged,
+  normalizeIntakeFields,
+  parseIntakeDate,
+  toIntakeFormValues,
+  toStoredIntakeValues,
+  validateIntakeValues,
+} from '@/lib/intakeFields';
+import { DEFAULT_CATEGORIES, getCategoryFields } from '@/lib/ticketCategories';
+
+// Per-category intake fields, without Firebase
+
+const technicalFields = getCategoryFields(DEFAULT_CATEGORIES, 'Technical');
+const serviceFields = getCategoryFields(DEFAULT_CATEGORIES, 'Service');
+
+const seatsField: IntakeField = { key: 'seats', label: 'Seats', type: 'number', required: false, min: 1, max: 50 };
+
+describe('validateIntakeValues', () => {
+  it('requires the required fields of the category', () => {
+    expect(validateIntakeValues(technicalFields, { device: ' ', os: 'Linux' })).toEqual({
+      device: 'Device is required',
+      affectedSystem: 'Affected system is required',
+    });
+    expect(validateIntakeValues(serviceFields, {})).toEqual({ location: 'Location is required' });
+  });
+
+  it('lets optional fields be left blank', () => {
+    expect(validateIntakeValues(serviceFields, { location: 'Room 101', neededBy: '' })).toEqual({});
+    expect(validateIntakeValues([seatsField], {})).toEqual({});
+  });
+
+  it('only accepts the listed options of select fields', () => {
+    const values = { device: 'Laptop', os: 'BeOS', affectedSystem: 'Email' };
+
+    expect(validateIntakeValues(technicalFields, values)).toEqual({ os: 'Please choose a valid operating system' });
+    expect(validateIntakeValues(technicalFields, { ...values, os: 'macOS' })).toEqual({});
+  });
+
+  it('checks dates', () => {
+    const invalid = 'Please enter a valid date (YYYY-MM-DD)';
+
+    expect(validateIntakeValues(serviceFields, { location: 'Room 101', neededBy: '2025-02-30' })).toEqual({ neededBy: invalid });
+    expect(validateIntakeValues(serviceFields, { location: 'Room 101', neededBy: '28/02/2025' })).toEqual({ neededBy: invalid });
+    expect(validateIntakeValues(serviceFields, { location: 'Room 101', neededBy: '2025-02-28' })).toEqual({});
+    expect(parseIntakeDate('2024-02-29')).toEqual(new Date(2024, 1, 29));
+  });
+
+  it('checks numbers and their bounds', () => {
+    expect(validateIntakeValues([seatsField], { seats: 'ten' })).toEqual({ seats: 'Please enter a number' });
+    expect(validateIntakeValues([seatsField], { seats: '0' })).toEqual({ seats: 'Must be at least 1' });
+    expect(validateIntakeValues([seatsField], { seats: '51' })).toEqual({ seats: 'Must be at most 50' });
+    expect(validateIntakeValues([seatsField], { seats: '12' })).toEqual({});
+  });
+});
+
+describe('toStoredIntakeValues', () => {
+  it('keeps only the answers to the category\'s questions, with numbers as numbers', () => {
+    const values = { location: ' Room 101 ', neededBy: '', device: 'Laptop', seats: '12' };
+
+    expect(toStoredIntakeValues([...serviceFields, seatsField], values)).toEqual({ location: 'Room 101', seats: 12 });
+  });
+
+  it('round-trips through the form', () => {
+    const stored = { location: 'Room 101', seats: 12 };
+
+    expect(toIntakeFormValues(stored)).toEqual({ location: 'Room 101', seats: '12' });
+    expect(toStoredIntakeValues([...serviceFields, seatsField], toIntakeFormValues(stored))).toEqual(stored);
+  });
+});
+
+describe('intakeValuesChanged', () => {
+  it('ignores blank answers and surrounding whitespace', () => {
+    expect(intakeValuesChanged({ location: 'Room 101', neededBy: '' }, { location: 'Room 101 ' })).toBe(false);
+    expect(intakeValuesChanged({ location: 'Room 101' }, { location: 'Room 102' })).toBe(true);
+  });
+});
+
+describe('normalizeIntakeFields', () => {
+  it('drops fields that cannot be rendered', () => {
+    const fields = normalizeIntakeFields([
+      { key: 'floor', label: 'Floor', type: 'number', required: 'yes', min: 0 },
+      { key: 'size', label: 'Size', type: 'select', required: true, options: [] },
+      { key: 'colour', label: 'Colour', type: 'colour', required: false },
+      { label: 'No key', type: 'text' },
+      null,
+    ]);
+
+    expect(fields).toEqual([{ key: 'floor', label: 'Floor', type: 'number', required: false, min: 0 }]);
+    expect(normalizeIntakeFields('not a list')).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeSlaDueDates, getSlaStatus, getSlaTargets, SlaTicket, toDate } from '@/shared/slaPolicy';
+
+// SLA targets and breach tracking, without Firebase
+
+const openedAt = new Date('2025-01-06T09:00:00Z');
+
+// A Technical/Normal ticket: first response due after 8 hours, resolution after 48
+function buildSlaTicket(overrides: Partial<SlaTicket> = {}): SlaTicket {
+  return {
+    status: 'New',
+    createdAt: openedAt,
+    ...computeSlaDueDates('Technical', 'Normal', openedAt),
+    ...overrides,
+  };
+}
+
+const hoursAfterOpening = (hours: number) => new Date(openedAt.getTime() + hours * 60 * 60 * 1000);
+
+describe('computeSlaDueDates', () => {
+  it('adds the category and priority targets to the opening time', () => {
+    expect(computeSlaDueDates('Technical', 'Urgent', openedAt)).toEqual({
+      firstResponseDueAt: new Date('2025-01-06T09:30:00Z'),
+      resolutionDueAt: new Date('2025-01-06T13:00:00Z'),
+    });
+  });
+
+  it('uses the Service targets for categories without their own', () => {
+    expect(getSlaTargets('Facilities', 'Normal')).toEqual(getSlaTargets('Service', 'Normal'));
+    expect(computeSlaDueDates('Facilities', 'Normal', openedAt)).toEqual({
+      firstResponseDueAt: hoursAfterOpening(8),
+      resolutionDueAt: hoursAfterOpening(72),
+    });
+  });
+});
+
+describe('getSlaStatus', () => {
+  it('is on track until three quarters of the window has passed', () => {
+    const ticket = buildSlaTicket();
+
+    expect(getSlaStatus(ticket, hoursAfterOpening(5.9)).firstResponse).toBe('on-track');
+    expect(getSlaStatus(ticket, hoursAfterOpening(6)).firstResponse).toBe('at-risk');
+  });
+
+  it('is breached once a due time has passed', () => {
+    const ticket = buildSlaTicket();
+
+    expect(getSlaStatus(ticket, hoursAfterOpening(8))).toMatchObject({ firstResponse: 'at-risk' });
+    expect(getSlaStatus(ticket, hoursAfterOpening(8.1))).toEqual({
+      firstResponse: 'breached',
+      resolution: 'on-track',
+      overall: 'breached',
+    });
+  });
+
+  it('is met when a target was completed in time, and breached when it was late', () => {
+    const onTime = buildSlaTicket({ firstRespondedAt: hoursAfterOpening(7) });
+    const late = buildSlaTicket({ firstRespondedAt: hoursAfterOpening(9) });
+
+    expect(getSlaStatus(onTime, hoursAfterOpening(10))).toEqual({
+      firstResponse: 'met',
+      resolution: 'on-track',
+      overall: 'on-track',
+    });
+    expect(getSlaStatus(late, hoursAfterOpening(10)).firstResponse).toBe('breached');
+  });
+
+  it('stops the clock once the ticket is resolved', () => {
+    const resolved = buildSlaTicket({
+      status: 'Resolved',
+      firstRespondedAt: hoursAfterOpening(1),
+      resolvedAt: hoursAfterOpening(40),
+    });
+
+    expect(getSlaStatus(resolved, hoursAfterOpening(500))).toEqual({
+      firstResponse: 'met',
+      resolution: 'met',
+      overall: 'met',
+    });
+  });
+
+  it('restarts the clock when a resolved ticket is reopened', () => {
+    const reopened = buildSlaTicket({
+      status: 'Work In Progress',
+      firstRespondedAt: hoursAfterOpening(1),
+      resolvedAt: null,
+    });
+
+    expect(getSlaStatus(reopened, hoursAfterOpening(40)).resolution).toBe('at-risk');
+    expect(getSlaStatus(reopened, hoursAfterOpening(49)).resolution).toBe('breached');
+  });
+
+  it('treats tickets without due times as on track', () => {
+    const legacy = { status: 'New', createdAt: openedAt };
+
+    expect(getSlaStatus(legacy, hoursAfterOpening(500)).overall).toBe('on-track');
+  });
+
+  it('reads Firestore timestamps', () => {
+    const asTimestamp = (date: Date) => ({ toDate: () => date });
+    const ticket = buildSlaTicket({
+      createdAt: asTimestamp(openedAt),
+      firstResponseDueAt: asTimestamp(hoursAfterOpening(8)),
+    });
+
+    expect(getSlaStatus(ticket, hoursAfterOpening(9)).firstResponse).toBe('breached');
+    expect(toDate(asTimestamp(openedAt))).toBe(openedAt);
+  });
+});
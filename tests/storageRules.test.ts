@@ -0,0 +1,85 @@
+import { assertFails, assertSucceeds, RulesTestContext, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { beforeAll, beforeEach, describe, it } from '@jest/globals';
+import 'firebase/compat/storage';
+import { MAX_ATTACHMENT_SIZE } from '@/lib/attachments';
+import { getTestEnvironment, resetEmulators, seedFixtures } from './support/emulator';
+import { FixtureUser, USERS } from './support/fixtures';
+
+// Security rules in storage.rules, exercised as each kind of user
+
+type Storage = ReturnType<RulesTestContext['storage']>;
+
+const ALICE_FILES = 'tickets/alice/alice-printer';
+const ALICE_LOG = `${ALICE_FILES}/a1-printer_log.txt`;
+
+let environment: RulesTestEnvironment;
+
+const as = (user: FixtureUser) => environment.authenticatedContext(user.uid).storage();
+const asGuest = () => environment.unauthenticatedContext().storage();
+const asStranger = () => environment.authenticatedContext('mallory').storage();
+
+async function upload(storage: Storage, path: string, contentType = 'text/plain', size = 16) {
+  return storage.ref(path).put(new Uint8Array(size), { contentType });
+}
+
+beforeAll(async () => {
+  environment = await getTestEnvironment();
+});
+
+beforeEach(async () => {
+  await resetEmulators();
+  await seedFixtures();
+  await environment.withSecurityRulesDisabled(async (context) => {
+    await upload(context.storage(), ALICE_LOG);
+  });
+});
+
+describe('reading attachments', () => {
+  it('lets the submitter and staff read a ticket\'s files', async () => {
+    await assertSucceeds(as(USERS.alice).ref(ALICE_LOG).getMetadata());
+    await assertSucceeds(as(USERS.bob).ref(ALICE_LOG).getMetadata());
+    await assertSucceeds(as(USERS.carol).ref(ALICE_LOG).getMetadata());
+  });
+
+  it('keeps other users and signed-out visitors out', async () => {
+    await assertFails(asStranger().ref(ALICE_LOG).getMetadata());
+    await assertFails(asGuest().ref(ALICE_LOG).getMetadata());
+  });
+});
+
+describe('adding attachments', () => {
+  it('lets the submitter and staff add files to a ticket', async () => {
+    await assertSucceeds(upload(as(USERS.alice), `${ALICE_FILES}/a2-screenshot.png`, 'image/png'));
+    await assertSucceeds(upload(as(USERS.bob), `${ALICE_FILES}/a3-manual.pdf`, 'application/pdf'));
+    await assertFails(upload(asStranger(), `${ALICE_FILES}/a4-log.txt`));
+    await assertFails(upload(asGuest(), `${ALICE_FILES}/a5-log.txt`));
+  });
+
+  it('only accepts images, PDFs and text files', async () => {
+    const alice = as(USERS.alice);
+
+    await assertSucceeds(upload(alice, `${ALICE_FILES}/photo.jpg`, 'image/jpeg'));
+    await assertSucceeds(upload(alice, `${ALICE_FILES}/export.csv`, 'text/csv'));
+    await assertFails(upload(alice, `${ALICE_FILES}/setup.exe`, 'application/octet-stream'));
+    await assertFails(upload(alice, `${ALICE_FILES}/page.html`, 'text/html'));
+    await assertFails(upload(alice, `${ALICE_FILES}/drawing.svg`, 'image/svg+xml'));
+  });
+
+  it('limits files to 10 MB', async () => {
+    const alice = as(USERS.alice);
+
+    await assertSucceeds(upload(alice, `${ALICE_FILES}/largest.txt`, 'text/plain', MAX_ATTACHMENT_SIZE));
+    await assertFails(upload(alice, `${ALICE_FILES}/too-large.txt`, 'text/plain', MAX_ATTACHMENT_SIZE + 1));
+  });
+
+  it('never overwrites a stored file', async () => {
+    await assertFails(upload(as(USERS.alice), ALICE_LOG));
+  });
+});
+
+describe('removing attachments', () => {
+  it('lets the submitter and staff remove files', async () => {
+    await assertFails(asStranger().ref(ALICE_LOG).delete());
+    await assertSucceeds(as(USERS.bob).ref(ALICE_LOG).delete());
+  });
+});
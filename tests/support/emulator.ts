@@ -0,0 +1,189 @@
+/// <reference types="node" />
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  auth,
+  AUTH_EMULATOR_HOST,
+  EMULATOR_PROJECT_ID,
+  FIRESTORE_EMULATOR_HOST,
+  STORAGE_EMULATOR_HOST,
+} from './firebase';
+import { FixtureUser, TICKET_COUNTERS, TICKET_ID_SETTINGS, TICKETS, USERS } from './fixtures';
+
+// Resetting and seeding the emulators between tests
+
+let testEnvironment: RulesTestEnvironment | null = null;
+
+/**
+ * Gets the rules test environment, loaded with the working copies of firestore.rules
+ * and storage.rules. Also used to read and write with security rules bypassed.
+ */
+export async function getTestEnvironment(): Promise<RulesTestEnvironment> {
+  if (!testEnvironment) {
+    const [host, port] = FIRESTORE_EMULATOR_HOST.split(':');
+    const [storageHost, storagePort] = STORAGE_EMULATOR_HOST.split(':');
+    testEnvironment = await initializeTestEnvironment({
+      projectId: EMULATOR_PROJECT_ID,
+      firestore: {
+        host,
+        port: Number(port),
+        rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+      },
+      storage: {
+        host: storageHost,
+        port: Number(storagePort),
+        rules: readFileSync(resolve(__dirname, '../../storage.rules'), 'utf8'),
+      },
+    });
+  }
+  return testEnvironment;
+}
+
+export async function cleanupTestEnvironment(): Promise<void> {
+  await testEnvironment?.cleanup();
+  testEnvironment = null;
+}
+
+async function callAuthEmulator(method: string, path: string, body?: object): Promise<any> {
+  const response = await fetch(`http://${AUTH_EMULATOR_HOST}${path}`, {
+    method,
+    // The Auth emulator accepts "owner" as an admin credential
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer owner' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Auth emulator ${method} ${path} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+/**
+ * Signs out and deletes every account, document and file
+ */
+export async function resetEmulators(): Promise<void> {
+  await signOut(auth);
+  await callAuthEmulator('DELETE', `/emulator/v1/projects/${EMULATOR_PROJECT_ID}/accounts`);
+  const environment = await getTestEnvironment();
+  await environment.clearFirestore();
+  await environment.clearStorage();
+}
+
+/**
+ * Creates an Auth account with a fixed UID and a verified email, without signing in
+ */
+export async function createAccount(user: FixtureUser): Promise<void> {
+  await callAuthEmulator('POST', `/identitytoolkit.googleapis.com/v1/projects/${EMULATOR_PROJECT_ID}/accounts`, {
+    localId: user.uid,
+    email: user.email,
+    password: user.password,
+    displayName: user.name,
+    emailVerified: true,
+  });
+}
+
+export interface EmailActionCode {
+  email: string;
+  requestType: string;  // e.g. PASSWORD_RESET, VERIFY_EMAIL
+  oobCode: string;
+  oobLink: string;
+}
+
+/**
+ * Lists the emails the Auth emulator would have sent (reset links, verification links)
+ */
+export async function getEmailActionCodes(): Promise<EmailActionCode[]> {
+  const { oobCodes } = await callAuthEmulator('GET', `/emulator/v1/projects/${EMULATOR_PROJECT_ID}/oobCodes`);
+  return oobCodes || [];
+}
+
+/**
+ * Writes documents with security rules bypassed
+ */
+export async function seedDocuments(documents: Record<string, object>): Promise<void> {
+  await (await getTestEnvironment()).withSecurityRulesDisabled(async (context) => {
+    const firestore = context.firestore();
+    await Promise.all(Object.entries(documents).map(([path, data]) => firestore.doc(path).set(data)));
+  });
+}
+
+/**
+ * Reads a document with security rules bypassed
+ */
+export async function readDocument(path: string): Promise<Record<string, any> | undefined> {
+  let data: Record<string, any> | undefined;
+  await (await getTestEnvironment()).withSecurityRulesDisabled(async (context) => {
+    data = (await context.firestore().doc(path).get()).data();
+  });
+  return data;
+}
+
+/**
+ * Loads the standard fixtures: accounts and profiles for every fixture user,
+ * the ticket number settings and counters, and the seeded tickets
+ */
+export async function seedFixtures(): Promise<void> {
+  const users = Object.values(USERS);
+  await Promise.all(users.map(createAccount));
+
+  const documents: Record<string, object> = {
+    'settings/ticketIds': TICKET_ID_SETTINGS,
+    'counters/tickets': TICKET_COUNTERS,
+  };
+  users.forEach(user => {
+    documents[`users/${user.uid}`] = {
+      uid: user.uid,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+    };
+  });
+  TICKETS.forEach(({ id, ownerId, ...ticket }) => {
+    documents[`users/${ownerId}/tickets/${id}`] = ticket;
+  });
+
+  await seedDocuments(documents);
+}
+
+export async function signInAs(user: FixtureUser): Promise<void> {
+  await signInWithEmailAndPassword(auth, user.email, user.password);
+}
+
+/**
+ * Collects the values a subscription emits, so a test can wait for one matching a condition
+ */
+export function recordUpdates<T>(subscribe: (onChange: (value: T) => void) => () => void) {
+  const values: T[] = [];
+  const waiters: { predicate: (value: T) => boolean; resolve: (value: T) => void }[] = [];
+
+  const unsubscribe = subscribe((value) => {
+    values.push(value);
+    waiters
+      .filter(waiter => waiter.predicate(value))
+      .forEach(waiter => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        waiter.resolve(value);
+      });
+  });
+
+  const waitFor = (predicate: (value: T) => boolean, timeoutMs = 10000): Promise<T> => {
+    const existing = values.find(predicate);
+    if (existing !== undefined) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for a subscription update')), timeoutMs);
+      waiters.push({
+        predicate,
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+      });
+    });
+  };
+
+  return { values, waitFor, unsubscribe };
+}
@@ -0,0 +1,33 @@
+import { initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
+
+// Stands in for lib/firebase during tests (mapped in jest.config.js), pointing the
+// app's modules at the local emulator suite. "demo-" projects never reach production.
+
+export const EMULATOR_PROJECT_ID = 'demo-ticketing-desk';
+
+// Set by "firebase emulators:exec"; the defaults match firebase.json
+export const FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || '127.0.0.1:8080';
+export const AUTH_EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || '127.0.0.1:9099';
+export const STORAGE_EMULATOR_HOST = process.env.FIREBASE_STORAGE_EMULATOR_HOST || '127.0.0.1:9199';
+
+const app = initializeApp({
+  projectId: EMULATOR_PROJECT_ID,
+  apiKey: 'demo-api-key',
+  authDomain: `${EMULATOR_PROJECT_ID}.firebaseapp.com`,
+});
+
+export const auth = getAuth(app);
+connectAuthEmulator(auth, `http://${AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+
+export const db = getFirestore(app);
+const [firestoreHost, firestorePort] = FIRESTORE_EMULATOR_HOST.split(':');
+connectFirestoreEmulator(db, firestoreHost, Number(firestorePort));
+
+export const storage = getStorage(app);
+const [storageHost, storagePort] = STORAGE_EMULATOR_HOST.split(':');
+connectStorageEmulator(storage, storageHost, Number(storagePort));
+
+export default app;
@@ -0,0 +1,78 @@
+import { UserRole } from '@/contexts/AuthContext';
+import { Ticket } from '@/lib/ticketRepository';
+
+// Seed data loaded into the emulators before each test
+
+export interface FixtureUser {
+  uid: string;
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+export const USERS = {
+  alice: { uid: 'alice', name: 'Alice Adams', email: 'alice@example.com', password: 'alice-password', role: 'user' },
+  bob: { uid: 'bob', name: 'Bob Brown', email: 'bob@example.com', password: 'bob-password', role: 'agent' },
+  carol: { uid: 'carol', name: 'Carol Clark', email: 'carol@example.com', password: 'carol-password', role: 'admin' },
+} satisfies Record<string, FixtureUser>;
+
+export const TICKET_ID_SETTINGS = {
+  organizationPrefix: '',
+  minDigits: 4,
+  includeYear: false,
+};
+
+/**
+ * Builds a ticket for seeding, filled in with plausible defaults
+ */
+export function buildTicket(owner: FixtureUser, overrides: Partial<Ticket> & { id: string }): Ticket {
+  const createdAt = new Date('2025-01-06T09:00:00Z');
+
+  return {
+    ownerId: owner.uid,
+    ticketId: null,
+    ticketIdAliases: [],
+    ticketIdProvisional: false,
+    name: owner.name,
+    phone: '555-0100',
+    email: owner.email,
+    ccEmails: [],
+    title: 'Printer is offline',
+    details: 'The second floor printer shows as offline for everyone.',
+    category: 'Technical',
+    customFields: { device: 'HP LaserJet', os: 'Windows', affectedSystem: 'Printing' },
+    status: 'New',
+    priority: 'Normal',
+    createdAt,
+    modifiedAt: createdAt,
+    attachments: [],
+    history: [],
+    ...overrides,
+  };
+}
+
+export const TICKETS: Ticket[] = [
+  buildTicket(USERS.alice, {
+    id: 'alice-printer',
+    ticketId: 'T-0001',
+  }),
+  buildTicket(USERS.alice, {
+    id: 'alice-desk',
+    ticketId: 'S-0001',
+    title: 'Desk move',
+    details: 'Please move my desk to room 214.',
+    category: 'Service',
+    customFields: { location: 'Room 214' },
+    createdAt: new Date('2025-01-07T09:00:00Z'),
+    assigneeId: USERS.bob.uid,
+    assigneeName: USERS.bob.name,
+    team: 'Service Desk',
+  }),
+];
+
+// Counters match the seeded ticket numbers, so new tickets continue the sequence
+export const TICKET_COUNTERS = {
+  technical: 1,
+  service: 1,
+};
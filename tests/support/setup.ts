@@ -0,0 +1,11 @@
+import { afterAll } from '@jest/globals';
+import { deleteApp } from 'firebase/app';
+import { cleanupTestEnvironment } from './emulator';
+import app from './firebase';
+
+// Runs in every test file: closes emulator connections so Jest can exit
+
+afterAll(async () => {
+  await cleanupTestEnvironment();
+  await deleteApp(app);
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_CATEGORIES, getCategoryId, TicketCategory, validateCategory } from '@/lib/ticketCategories';
+
+// Category validation, without Firebase
+
+function buildCategory(name: string, overrides: Partial<TicketCategory> = {}): TicketCategory {
+  return {
+    id: getCategoryId(name),
+    name,
+    prefix: 'W',
+    description: 'Things to do with the warehouse',
+    active: true,
+    order: DEFAULT_CATEGORIES.length,
+    fields: [],
+    ...overrides,
+  };
+}
+
+describe('validateCategory', () => {
+  it('accepts a new category with a unique name and prefix', () => {
+    expect(validateCategory(buildCategory('Warehouse'), DEFAULT_CATEGORIES, true)).toEqual({});
+  });
+
+  it('rejects a new category whose ID belongs to an existing one', () => {
+    const category = buildCategory('Facilities!', { prefix: 'W' });
+
+    expect(category.id).toBe('facilities');
+    expect(validateCategory(category, DEFAULT_CATEGORIES, true)).toEqual({
+      name: 'This name is too close to an existing category',
+    });
+  });
+
+  it('checks a new category\'s name and prefix against the category with its ID', () => {
+    const category = buildCategory('hr', { prefix: 'HR' });
+
+    expect(validateCategory(category, DEFAULT_CATEGORIES, true)).toEqual({
+      name: 'A category with this name already exists',
+      prefix: 'This prefix is already used by another category',
+    });
+  });
+
+  it('lets an existing category keep its own name and prefix', () => {
+    const facilities = DEFAULT_CATEGORIES.find(category => category.id === 'facilities')!;
+
+    expect(validateCategory({ ...facilities, description: 'Buildings' }, DEFAULT_CATEGORIES)).toEqual({});
+  });
+
+  it('rejects a prefix used by another category', () => {
+    const facilities = DEFAULT_CATEGORIES.find(category => category.id === 'facilities')!;
+
+    expect(validateCategory({ ...facilities, prefix: 'T' }, DEFAULT_CATEGORIES)).toEqual({
+      prefix: 'This prefix is already used by another category',
+    });
+  });
+});
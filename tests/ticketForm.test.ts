@@ -0,0 +1,251 @@
+import { describe, expect, it } from '@jest/globals';
+import { toStoredIntakeValues } from '@/lib/intakeFields';
+import { createMemoryTicketRepository } from '@/lib/memoryTicketRepository';
+import {
+  findConflicts,
+  getChangedFields,
+  isIntakeEdited,
+  mergeFormData,
+  revertTicketToEntry,
+  saveTicketEdits,
+  TicketEditConflictError,
+  TicketRevertConflictError,
+  TicketFormData,
+  toTicketFormData,
+} from '@/lib/ticketForm';
+import { buildTicket, USERS } from './support/fixtures';
+
+// The ticket detail form, without Firebase
+
+describe('toTicketFormData', () => {
+  it('fills the form from a ticket', () => {
+    const ticket = buildTicket(USERS.alice, { id: 'alice-printer', title: 'Printer offline', ccEmails: ['it@example.com'] });
+
+    expect(toTicketFormData(ticket)).toMatchObject({
+      name: USERS.alice.name,
+      email: USERS.alice.email,
+      ccEmails: ['it@example.com'],
+      title: 'Printer offline',
+      status: 'New',
+    });
+  });
+
+  it('fills in values older tickets lack', () => {
+    const ticket = buildTicket(USERS.alice, { id: 'old', ccEmails: undefined, ccEmail: 'a@example.com; b@example.com' });
+    // Stored before priorities existed
+    delete (ticket as Partial<typeof ticket>).priority;
+
+    const formData = toTicketFormData(ticket);
+    expect(formData.ccEmails).toEqual(['a@example.com', 'b@example.com']);
+    expect(formData.priority).toBe('Normal');
+  });
+});
+
+describe('getChangedFields', () => {
+  const original = toTicketFormData(buildTicket(USERS.alice, { id: 'alice-printer', customFields: { device: 'Laptop' } }));
+
+  it('lists the editable fields that differ', () => {
+    const edited = { ...original, title: 'New title', ccEmails: ['it@example.com'], customFields: { device: 'Desktop' } };
+
+    expect(getChangedFields(edited, original)).toEqual(['ccEmails', 'title', 'customFields']);
+  });
+
+  it('ignores status and whitespace-only changes to custom fields', () => {
+    const edited = { ...original, status: 'Resolved' as const, customFields: { device: ' Laptop ' } };
+
+    expect(getChangedFields(edited, original)).toEqual([]);
+  });
+});
+
+describe('isIntakeEdited', () => {
+  // Filed before Technical asked which device is affected
+  const original = toTicketFormData(buildTicket(USERS.alice, { id: 'alice-printer', customFields: {} }));
+
+  it('leaves unanswered questions alone while other fields are edited', () => {
+    expect(isIntakeEdited({ ...original, title: 'Printer jammed' }, original)).toBe(false);
+  });
+
+  it('asks for the answers once the category or an answer changes', () => {
+    expect(isIntakeEdited({ ...original, category: 'Service' }, original)).toBe(true);
+    expect(isIntakeEdited({ ...original, customFields: { device: 'Laptop' } }, original)).toBe(true);
+  });
+});
+
+describe('merging edits', () => {
+  const original = toTicketFormData(buildTicket(USERS.alice, { id: 'alice-printer' }));
+  const mine: TicketFormData = { ...original, title: 'Printer offline on floor 3', priority: 'High' };
+  const theirs: TicketFormData = { ...original, title: 'Floor 3 printer down', details: 'Paper jam.', status: 'In Review' };
+
+  it('finds fields both sides changed to different values', () => {
+    expect(findConflicts(original, mine, theirs)).toEqual(['title']);
+    expect(findConflicts(original, mine, { ...theirs, title: mine.title })).toEqual([]);
+  });
+
+  it('keeps my value for conflicts unless told otherwise, and takes theirs elsewhere', () => {
+    expect(mergeFormData(original, mine, theirs)).toEqual({
+      ...theirs,
+      title: 'Printer offline on floor 3',
+      priority: 'High',
+    });
+    expect(mergeFormData(original, mine, theirs, { title: 'theirs' })).toEqual({ ...theirs, priority: 'High' });
+  });
+});
+
+describe('saveTicketEdits', () => {
+  const ref = { ownerId: USERS.alice.uid, id: 'alice-printer' };
+  const storeCustomFields = (edited: TicketFormData) => toStoredIntakeValues([], edited.customFields);
+
+  function setup() {
+    const repository = createMemoryTicketRepository({
+      tickets: [buildTicket(USERS.alice, { id: ref.id, ticketId: 'T-0001' })],
+    });
+    return repository;
+  }
+
+  it('writes only the fields I changed, keeping changes made elsewhere', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+    await repository.update(ref, { set: { details: 'Paper jam on tray 2.' } });
+
+    const saved = await saveTicketEdits(repository, ref, original, { ...original, title: 'Printer jammed' }, USERS.alice.name, storeCustomFields);
+
+    expect(saved?.changes).toEqual([{ field: 'title', from: 'Printer is offline', to: 'Printer jammed' }]);
+    expect(await repository.get(ref)).toMatchObject({ title: 'Printer jammed', details: 'Paper jam on tray 2.' });
+  });
+
+  it('records the change set as an edit entry', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+    const customFields = { ...original.customFields, device: 'Canon imageRUNNER' };
+    const edited = { ...original, priority: 'High' as const, ccEmails: ['it@example.com'], customFields };
+
+    await saveTicketEdits(repository, ref, original, edited, USERS.alice.name, () => customFields);
+
+    const entry = (await repository.get(ref))?.history?.at(-1);
+    expect(entry).toMatchObject({
+      author: USERS.alice.name,
+      type: 'edit',
+      notes: 'Edited CC recipients, Additional details, Priority',
+      changes: [
+        { field: 'ccEmails', from: [], to: ['it@example.com'] },
+        { field: 'customFields', from: original.customFields, to: customFields },
+        { field: 'priority', from: 'Normal', to: 'High' },
+      ],
+    });
+    expect(entry?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('records nothing when the edits are already saved', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+    await repository.update(ref, { set: { title: 'Printer jammed' } });
+
+    const saved = await saveTicketEdits(repository, ref, original, { ...original, title: 'Printer jammed' }, USERS.alice.name, storeCustomFields);
+
+    expect(saved).toBeNull();
+    expect((await repository.get(ref))?.history).toEqual([]);
+  });
+
+  it('does not count notes and status changes as conflicts', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+    await repository.update(ref, { set: { status: 'In Review' } });
+    await repository.addNote(ref, { id: 'note-1', author: USERS.bob.name, timestamp: new Date(), notes: 'Looking into it.', type: 'note' });
+
+    await saveTicketEdits(repository, ref, original, { ...original, title: 'Printer jammed' }, USERS.alice.name, storeCustomFields);
+
+    expect(await repository.get(ref)).toMatchObject({ title: 'Printer jammed', status: 'In Review' });
+  });
+
+  it('refuses to overwrite a field someone else changed', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+    await repository.update(ref, { set: { title: 'Floor 3 printer down' } });
+
+    const save = saveTicketEdits(repository, ref, original, { ...original, title: 'Printer jammed' }, USERS.alice.name, storeCustomFields);
+
+    await expect(save).rejects.toThrow(TicketEditConflictError);
+    await expect(save).rejects.toMatchObject({ conflicts: ['title'], latest: { title: 'Floor 3 printer down' } });
+    expect((await repository.get(ref))?.title).toBe('Floor 3 printer down');
+  });
+
+  it('leaves the SLA deadlines to the server when the priority changes', async () => {
+    const repository = setup();
+    const original = toTicketFormData((await repository.get(ref))!);
+
+    await saveTicketEdits(repository, ref, original, { ...original, priority: 'Urgent' }, USERS.alice.name, storeCustomFields);
+
+    const ticket = await repository.get(ref);
+    expect(ticket?.priority).toBe('Urgent');
+    expect(ticket?.firstResponseDueAt).toBeUndefined();
+  });
+});
+
+describe('revertTicketToEntry', () => {
+  const ref = { ownerId: USERS.alice.uid, id: 'alice-printer' };
+  const storeCustomFields = (edited: TicketFormData) => ({ ...edited.customFields });
+
+  async function setup() {
+    const repository = createMemoryTicketRepository({
+      tickets: [buildTicket(USERS.alice, { id: ref.id, ticketId: 'T-0001' })],
+    });
+    const original = toTicketFormData((await repository.get(ref))!);
+    return { repository, original };
+  }
+
+  it('restores the values from before an edit and records the revert', async () => {
+    const { repository, original } = await setup();
+    const edit = await saveTicketEdits(repository, ref, original, { ...original, details: 'asdf' }, USERS.bob.name, storeCustomFields);
+
+    const revert = await revertTicketToEntry(repository, ref, 0, USERS.alice.name);
+
+    const ticket = await repository.get(ref);
+    expect(ticket?.details).toBe(original.details);
+    expect(ticket?.history?.at(-1)).toEqual(revert);
+    expect(revert).toMatchObject({
+      author: USERS.alice.name,
+      type: 'edit',
+      notes: 'Reverted Details to an earlier version',
+      revertedEntryId: edit!.id,
+      changes: [{ field: 'details', from: 'asdf', to: original.details }],
+    });
+  });
+
+  it('leaves fields that only later edits changed alone', async () => {
+    const { repository, original } = await setup();
+    await saveTicketEdits(repository, ref, original, { ...original, details: 'asdf' }, USERS.bob.name, storeCustomFields);
+    const afterFirst = toTicketFormData((await repository.get(ref))!);
+    await saveTicketEdits(repository, ref, afterFirst, { ...afterFirst, title: 'Second', priority: 'Urgent' }, USERS.bob.name, storeCustomFields);
+
+    await revertTicketToEntry(repository, ref, 0, USERS.alice.name);
+
+    const ticket = await repository.get(ref);
+    expect(ticket).toMatchObject({ details: original.details, title: 'Second', priority: 'Urgent' });
+    expect(ticket?.history?.at(-1)?.changes?.map(change => change.field)).toEqual(['details']);
+  });
+
+  it('asks before overwriting later edits to the same fields', async () => {
+    const { repository, original } = await setup();
+    await saveTicketEdits(repository, ref, original, { ...original, title: 'First' }, USERS.alice.name, storeCustomFields);
+    const afterFirst = toTicketFormData((await repository.get(ref))!);
+    await saveTicketEdits(repository, ref, afterFirst, { ...afterFirst, title: 'Second' }, USERS.bob.name, storeCustomFields);
+
+    const revert = revertTicketToEntry(repository, ref, 0, USERS.alice.name);
+    await expect(revert).rejects.toThrow(TicketRevertConflictError);
+    await expect(revert).rejects.toMatchObject({ fields: ['title'] });
+    expect((await repository.get(ref))?.title).toBe('Second');
+
+    await revertTicketToEntry(repository, ref, 0, USERS.alice.name, ['title']);
+    expect((await repository.get(ref))?.title).toBe(original.title);
+  });
+
+  it('records nothing when the fields already have their earlier values', async () => {
+    const { repository, original } = await setup();
+    await saveTicketEdits(repository, ref, original, { ...original, title: 'First' }, USERS.alice.name, storeCustomFields);
+    const edited = toTicketFormData((await repository.get(ref))!);
+    await saveTicketEdits(repository, ref, edited, { ...edited, title: original.title }, USERS.alice.name, storeCustomFields);
+
+    expect(await revertTicketToEntry(repository, ref, 0, USERS.alice.name, ['title'])).toBeNull();
+    expect((await repository.get(ref))?.history).toHaveLength(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from '@jest/globals';
+import { isValidTicketId } from '@/lib/ticketUtils';
+import {
+  buildTicketId,
+  DEFAULT_TICKET_ID_FORMAT,
+  parseTicketId,
+  resolveTicketIdFormat,
+  TicketIdFormat,
+} from '@/shared/ticketIdFormat';
+
+// Ticket ID generation and parsing, without Firebase
+
+const openedAt = new Date('2025-06-15T12:00:00Z');
+
+const ACME_FORMAT: TicketIdFormat = {
+  ...DEFAULT_TICKET_ID_FORMAT,
+  organizationPrefix: 'ACME',
+  includeYear: true,
+};
+
+describe('resolveTicketIdFormat', () => {
+  it('falls back to the defaults for missing or malformed settings', () => {
+    expect(resolveTicketIdFormat(null)).toEqual(DEFAULT_TICKET_ID_FORMAT);
+    expect(resolveTicketIdFormat({ organizationPrefix: 'acme', minDigits: 0, categoryPrefixes: { Service: 'S V' } }))
+      .toEqual({ ...DEFAULT_TICKET_ID_FORMAT, organizationPrefix: 'ACME' });
+  });
+
+  it('takes prefixes from the settings over the built-in ones', () => {
+    const format = resolveTicketIdFormat({ categoryPrefixes: { Service: 'sv', Legacy: 'L' } });
+
+    expect(format.categoryPrefixes).toMatchObject({ Service: 'SV', Technical: 'T', Legacy: 'L' });
+  });
+
+  it('takes prefixes from category documents over the settings', () => {
+    const format = resolveTicketIdFormat(
+      { categoryPrefixes: { Service: 'SV', Facilities: 'FA' } },
+      [{ name: 'Facilities', prefix: 'B' }, { name: 'Warehouse', prefix: 'W' }, { name: 'Service' }]
+    );
+
+    expect(format.categoryPrefixes).toMatchObject({ Service: 'SV', Facilities: 'B', Warehouse: 'W' });
+  });
+});
+
+describe('buildTicketId', () => {
+  it('pads the number to the minimum digits', () => {
+    expect(buildTicketId('Technical', 42, DEFAULT_TICKET_ID_FORMAT, openedAt)).toBe('T-0042');
+    expect(buildTicketId('HR', 7, DEFAULT_TICKET_ID_FORMAT, openedAt)).toBe('HR-0007');
+  });
+
+  it('adds the organization prefix and the year the ticket was opened', () => {
+    expect(buildTicketId('Service', 7, ACME_FORMAT, openedAt)).toBe('ACME-S-2025-0007');
+  });
+
+  it('lets numbers grow past the padding', () => {
+    expect(buildTicketId('Technical', 12345, DEFAULT_TICKET_ID_FORMAT, openedAt)).toBe('T-12345');
+  });
+});
+
+describe('parseTicketId', () => {
+  it('splits an ID into its segments', () => {
+    expect(parseTicketId('ACME-S-2025-0007', ACME_FORMAT)).toEqual({
+      organizationPrefix: 'ACME',
+      categoryPrefix: 'S',
+      category: 'Service',
+      year: 2025,
+      number: 7,
+    });
+  });
+
+  it('reads IDs issued before the organization prefix and year were switched on', () => {
+    expect(parseTicketId('T-0042', ACME_FORMAT)).toMatchObject({
+      organizationPrefix: null,
+      category: 'Technical',
+      year: null,
+      number: 42,
+    });
+  });
+
+  it('reads numbers that grew past the padding', () => {
+    expect(parseTicketId('T-12345')).toMatchObject({ category: 'Technical', number: 12345 });
+  });
+
+  it('reads IDs issued before the padding was raised', () => {
+    const format = { ...DEFAULT_TICKET_ID_FORMAT, minDigits: 6 };
+
+    expect(buildTicketId('Technical', 43, format, openedAt)).toBe('T-000043');
+    expect(parseTicketId('T-0042', format)).toMatchObject({ category: 'Technical', number: 42 });
+  });
+
+  it('tells longer prefixes from shorter ones', () => {
+    const format = { ...DEFAULT_TICKET_ID_FORMAT, categoryPrefixes: { Hardware: 'H', HR: 'HR' } };
+
+    expect(parseTicketId('HR-0003', format)?.category).toBe('HR');
+    expect(parseTicketId('H-0003', format)?.category).toBe('Hardware');
+  });
+
+  it('round-trips the IDs it builds', () => {
+    const ticketId = buildTicketId('Facilities', 99, ACME_FORMAT, openedAt);
+
+    expect(parseTicketId(ticketId, ACME_FORMAT)).toMatchObject({ category: 'Facilities', year: 2025, number: 99 });
+  });
+});
+
+describe('isValidTicketId', () => {
+  it('accepts IDs in the format', () => {
+    expect(isValidTicketId('T-0001')).toBe(true);
+    expect(isValidTicketId(' S-0002 ')).toBe(true);
+    expect(isValidTicketId('ACME-HR-2025-0003', ACME_FORMAT)).toBe(true);
+  });
+
+  it('rejects unknown prefixes and malformed IDs', () => {
+    expect(isValidTicketId('Z-0001')).toBe(false);
+    expect(isValidTicketId('OTHER-T-0001', ACME_FORMAT)).toBe(false);
+    expect(isValidTicketId('T-')).toBe(false);
+    expect(isValidTicketId('T-00a1')).toBe(false);
+    expect(isValidTicketId('t-0001')).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { signOut } from 'firebase/auth';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import { INITIAL_TICKET_STATUS } from '@/lib/ticketStatus';
+import { generateTicketId, hasNumberedTickets, TicketIdUnavailableError } from '@/lib/ticketUtils';
+import { readDocument, resetEmulators, seedDocuments, seedFixtures, signInAs } from './support/emulator';
+import { auth } from './support/firebase';
+import { buildTicket, USERS } from './support/fixtures';
+
+describe('ticket numbering', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+    await signInAs(USERS.alice);
+  });
+
+  it('continues the sequence from the stored counter', async () => {
+    expect(await generateTicketId('Technical')).toBe('T-0002');
+    expect(await generateTicketId('Technical')).toBe('T-0003');
+    expect(await generateTicketId('Service')).toBe('S-0002');
+  });
+
+  it('starts a category with no counter at 1', async () => {
+    expect(await generateTicketId('Facilities')).toBe('F-0001');
+  });
+
+  it('locks a category\'s prefix once a ticket has been numbered in it', async () => {
+    expect(await hasNumberedTickets('Technical')).toBe(true);
+    expect(await hasNumberedTickets('Facilities')).toBe(false);
+
+    await generateTicketId('Facilities');
+
+    expect(await hasNumberedTickets('Facilities')).toBe(true);
+  });
+
+  it('gives concurrent submissions distinct, gapless numbers', async () => {
+    const ticketIds = await Promise.all(Array.from({ length: 8 }, () => generateTicketId('Technical')));
+
+    expect([...ticketIds].sort()).toEqual([
+      'T-0002', 'T-0003', 'T-0004', 'T-0005', 'T-0006', 'T-0007', 'T-0008', 'T-0009',
+    ]);
+    expect(await readDocument('counters/tickets')).toMatchObject({ technical: 9, service: 1 });
+  });
+
+  it('numbers concurrently created tickets once each', async () => {
+    const submit = async (title: string) => {
+      const ref = ticketRepository.newRef(USERS.alice.uid);
+      const ticketId = await generateTicketId('Service');
+      const { id, ownerId, createdAt, modifiedAt, ...ticket } = buildTicket(USERS.alice, {
+        id: ref.id,
+        ticketId,
+        title,
+        category: 'Service',
+        customFields: { location: 'Room 101' },
+        status: INITIAL_TICKET_STATUS,
+      });
+      await ticketRepository.create(ref, ticket);
+      return ref;
+    };
+
+    await Promise.all(['One', 'Two', 'Three', 'Four'].map(submit));
+
+    const tickets = await ticketRepository.query({ ownerId: USERS.alice.uid });
+    const serviceIds = tickets
+      .filter(ticket => ticket.category === 'Service')
+      .map(ticket => ticket.ticketId)
+      .sort();
+
+    expect(serviceIds).toEqual(['S-0001', 'S-0002', 'S-0003', 'S-0004', 'S-0005']);
+  });
+
+  it('uses the configured format', async () => {
+    await seedDocuments({
+      'settings/ticketIds': { organizationPrefix: 'ACME', minDigits: 6, includeYear: false },
+    });
+
+    expect(await generateTicketId('Technical')).toBe('ACME-T-000002');
+  });
+
+  it('gives up instead of guessing the format when the settings can\'t be read', async () => {
+    await signOut(auth);
+
+    await expect(generateTicketId('Technical')).rejects.toBeInstanceOf(TicketIdUnavailableError);
+    expect(await readDocument('counters/tickets')).toMatchObject({ technical: 1 });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals';
+import { createMemoryTicketRepository } from '@/lib/memoryTicketRepository';
+import { assignTicket } from '@/lib/ticketAssignment';
+import { changeTicketStatus, InvalidStatusTransitionError } from '@/lib/ticketStatus';
+import { buildTicket, USERS } from './support/fixtures';
+
+// Ticket workflow rules, run against the in-memory repository (no emulator needed)
+
+const ref = { ownerId: USERS.alice.uid, id: 'alice-printer' };
+
+function setup(overrides = {}) {
+  let now = new Date('2025-01-06T10:00:00Z');
+  const repository = createMemoryTicketRepository({
+    tickets: [buildTicket(USERS.alice, { id: ref.id, ticketId: 'T-0001', ...overrides })],
+    now: () => now,
+  });
+  const advanceTo = (time: string) => {
+    now = new Date(time);
+  };
+  return { repository, advanceTo };
+}
+
+describe('changeTicketStatus', () => {
+  it('moves the ticket and records the change', async () => {
+    const { repository } = setup();
+
+    const entry = await changeTicketStatus(repository, ref, 'In Review', USERS.carol.name, 'Checking the queue');
+
+    const ticket = await repository.get(ref);
+    expect(ticket?.status).toBe('In Review');
+    expect(entry.notes).toBe('Status changed from New to In Review: Checking the queue');
+    expect(ticket?.history).toEqual([entry]);
+  });
+
+  it('rejects moves the workflow does not allow', async () => {
+    const { repository } = setup();
+
+    await expect(changeTicketStatus(repository, ref, 'Resolved', USERS.carol.name))
+      .rejects.toBeInstanceOf(InvalidStatusTransitionError);
+    expect((await repository.get(ref))?.status).toBe('New');
+  });
+
+  it('tracks first response and resolution times', async () => {
+    const { repository, advanceTo } = setup();
+
+    await changeTicketStatus(repository, ref, 'In Review', USERS.carol.name);
+    advanceTo('2025-01-06T12:00:00Z');
+    await changeTicketStatus(repository, ref, 'Resolved', USERS.carol.name);
+
+    let ticket = await repository.get(ref);
+    expect(ticket?.firstRespondedAt).toEqual(new Date('2025-01-06T10:00:00Z'));
+    expect(ticket?.resolvedAt).toEqual(new Date('2025-01-06T12:00:00Z'));
+
+    await changeTicketStatus(repository, ref, 'Work In Progress', USERS.carol.name);
+
+    ticket = await repository.get(ref);
+    expect(ticket?.firstRespondedAt).toEqual(new Date('2025-01-06T10:00:00Z'));
+    expect(ticket?.resolvedAt).toBeNull();
+  });
+});
+
+describe('assignTicket', () => {
+  it('assigns the ticket and records the change', async () => {
+    const { repository } = setup();
+
+    const entry = await assignTicket(repository, ref, { assignee: USERS.bob, team: 'Technical Support' }, USERS.carol.name);
+
+    const ticket = await repository.get(ref);
+    expect(ticket).toMatchObject({ assigneeId: 'bob', assigneeName: 'Bob Brown', team: 'Technical Support' });
+    expect(entry?.notes).toBe('Assigned to Bob Brown. Team set to Technical Support');
+    expect(await repository.query({ assigneeId: 'bob' })).toHaveLength(1);
+  });
+
+  it('leaves the ticket untouched when nothing changes', async () => {
+    const { repository } = setup({ assigneeId: 'bob', assigneeName: 'Bob Brown', team: 'Technical Support' });
+
+    const entry = await assignTicket(repository, ref, { assignee: USERS.bob, team: 'Technical Support' }, USERS.carol.name);
+
+    expect(entry).toBeNull();
+    expect((await repository.get(ref))?.history).toEqual([]);
+  });
+
+  it('reassigns between agents who share a name', async () => {
+    const { repository } = setup({ assigneeId: 'bob', assigneeName: 'Bob Brown', team: 'Technical Support' });
+    const otherBob = { uid: 'bob-2', name: 'Bob Brown', email: 'bob.brown@example.com' };
+
+    const entry = await assignTicket(repository, ref, { assignee: otherBob, team: 'Technical Support' }, USERS.carol.name);
+
+    expect(entry).toMatchObject({ notes: 'Reassigned from Bob Brown to Bob Brown', assigneeId: 'bob-2' });
+    expect(await repository.query({ assigneeId: 'bob' })).toHaveLength(0);
+    expect(await repository.query({ assigneeId: 'bob-2' })).toHaveLength(1);
+  });
+});
+
+describe('memory repository history', () => {
+  it('appends entries like arrayUnion, skipping only exact duplicates', async () => {
+    const { repository } = setup();
+    const timestamp = new Date('2025-01-06T10:00:00Z');
+    const note = { id: '1736157600000', author: USERS.alice.name, timestamp, notes: 'Still offline.', type: 'note' as const };
+    // Entry IDs are timestamps, so two entries written in the same millisecond share one
+    const sameMillisecond = { ...note, author: USERS.bob.name, notes: 'Looking into it.' };
+
+    await repository.addNote(ref, note);
+    await repository.addNote(ref, { ...note, timestamp: new Date(timestamp) });
+    await repository.addNote(ref, sameMillisecond);
+
+    const ticket = await repository.get(ref);
+    expect(ticket?.history?.map(entry => entry.notes)).toEqual(['Still offline.', 'Looking into it.']);
+  });
+});
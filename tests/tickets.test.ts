@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { Attachment } from '@/lib/attachments';
+import { ticketRepository } from '@/lib/firestoreTicketRepository';
+import { assignTicket } from '@/lib/ticketAssignment';
+import { HistoryEntry, Ticket } from '@/lib/ticketRepository';
+import { changeTicketStatus } from '@/lib/ticketStatus';
+import { recordUpdates, resetEmulators, seedFixtures, signInAs } from './support/emulator';
+import { buildTicket, USERS } from './support/fixtures';
+
+const alicePrinter = { ownerId: USERS.alice.uid, id: 'alice-printer' };
+
+function buildNote(id: string, notes: string, attachments?: Attachment[]): HistoryEntry {
+  return {
+    id,
+    author: USERS.alice.name,
+    timestamp: new Date(),
+    notes,
+    type: 'note',
+    ...(attachments && { attachments }),
+  };
+}
+
+describe('ticket notes', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+    await signInAs(USERS.alice);
+  });
+
+  it('appends a note to the history', async () => {
+    await ticketRepository.addNote(alicePrinter, buildNote('note-1', 'Still offline this morning.'));
+
+    const ticket = await ticketRepository.get(alicePrinter);
+    expect(ticket?.history?.map(entry => entry.notes)).toEqual(['Still offline this morning.']);
+    expect(ticket?.firstRespondedAt).toBeUndefined();
+  });
+
+  it('adds note attachments to the ticket files', async () => {
+    const screenshot: Attachment = {
+      id: 'attachment-1',
+      name: 'error.png',
+      contentType: 'image/png',
+      size: 2048,
+      url: 'https://example.com/error.png',
+      path: 'tickets/alice/alice-printer/attachment-1-error.png',
+      uploadedBy: USERS.alice.name,
+      uploadedAt: new Date(),
+    };
+
+    await ticketRepository.addNote(alicePrinter, buildNote('note-1', 'Screenshot attached.', [screenshot]));
+
+    const ticket = await ticketRepository.get(alicePrinter);
+    expect(ticket?.attachments?.map(attachment => attachment.id)).toEqual(['attachment-1']);
+    expect(ticket?.history?.[0].attachments?.map(attachment => attachment.id)).toEqual(['attachment-1']);
+  });
+
+  it('keeps every note when several are added at once', async () => {
+    await Promise.all(
+      ['a', 'b', 'c', 'd'].map(id => ticketRepository.addNote(alicePrinter, buildNote(`note-${id}`, `Note ${id}`)))
+    );
+
+    const ticket = await ticketRepository.get(alicePrinter);
+    expect(ticket?.history?.map(entry => entry.id).sort()).toEqual(['note-a', 'note-b', 'note-c', 'note-d']);
+  });
+
+  it('records the first response time for an agent reply', async () => {
+    await signInAs(USERS.bob);
+    await ticketRepository.addNote(alicePrinter, buildNote('note-1', 'Looking into it.'), { firstResponse: true });
+
+    const ticket = await ticketRepository.get(alicePrinter);
+    expect(ticket?.firstRespondedAt).toBeTruthy();
+  });
+});
+
+describe('dashboard subscription', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  it("lists a user's tickets newest first and picks up new ones", async () => {
+    await signInAs(USERS.alice);
+    const updates = recordUpdates<Ticket[]>(onChange => ticketRepository.subscribe({ ownerId: USERS.alice.uid }, onChange));
+
+    try {
+      const initial = await updates.waitFor(tickets => tickets.length === 2);
+      expect(initial.map(ticket => ticket.id)).toEqual(['alice-desk', 'alice-printer']);
+      expect(initial.every(ticket => ticket.ownerId === USERS.alice.uid)).toBe(true);
+
+      const ref = ticketRepository.newRef(USERS.alice.uid);
+      const { id, ownerId, createdAt, modifiedAt, ...ticket } = buildTicket(USERS.alice, {
+        id: ref.id,
+        ticketId: 'T-0002',
+        title: 'VPN keeps dropping',
+      });
+      await ticketRepository.create(ref, ticket);
+
+      // The new ticket may first arrive before its server timestamp is set
+      const updated = await updates.waitFor(tickets => tickets.length === 3 && tickets[0].createdAt !== null);
+      expect(updated[0]).toMatchObject({ id: ref.id, title: 'VPN keeps dropping' });
+    } finally {
+      updates.unsubscribe();
+    }
+  });
+
+  it('shows an agent the tickets assigned to them', async () => {
+    await signInAs(USERS.bob);
+    const updates = recordUpdates<Ticket[]>(onChange => ticketRepository.subscribe({ assigneeId: USERS.bob.uid }, onChange));
+
+    try {
+      const initial = await updates.waitFor(() => true);
+      expect(initial.map(ticket => ticket.id)).toEqual(['alice-desk']);
+
+      await signInAs(USERS.carol);
+      await assignTicket(ticketRepository, alicePrinter, { assignee: USERS.bob, team: 'Technical Support' }, USERS.carol.name);
+
+      const updated = await updates.waitFor(tickets => tickets.length === 2);
+      expect(updated.map(ticket => ticket.id)).toEqual(['alice-desk', 'alice-printer']);
+    } finally {
+      updates.unsubscribe();
+    }
+  });
+
+  it('reflects status changes made by an administrator', async () => {
+    await signInAs(USERS.carol);
+    const updates = recordUpdates<Ticket[]>(onChange => ticketRepository.subscribe({}, onChange));
+
+    try {
+      await updates.waitFor(tickets => tickets.length === 2);
+      await changeTicketStatus(ticketRepository, alicePrinter, 'In Review', USERS.carol.name);
+
+      const updated = await updates.waitFor(tickets =>
+        tickets.some(ticket => ticket.id === alicePrinter.id && ticket.status === 'In Review'));
+      const printer = updated.find(ticket => ticket.id === alicePrinter.id);
+      expect(printer?.history?.map(entry => entry.type)).toEqual(['status']);
+    } finally {
+      updates.unsubscribe();
+    }
+  });
+});
+
+describe('ticket detail subscription', () => {
+  beforeEach(async () => {
+    await resetEmulators();
+    await seedFixtures();
+  });
+
+  it('picks up notes and status changes made by others', async () => {
+    await signInAs(USERS.carol);
+    const updates = recordUpdates<Ticket | null>(onChange => ticketRepository.subscribeToTicket(alicePrinter, onChange));
+
+    try {
+      const initial = await updates.waitFor(ticket => ticket !== null);
+      expect(initial?.title).toBe('Printer is offline');
+
+      await changeTicketStatus(ticketRepository, alicePrinter, 'In Review', USERS.carol.name);
+      await signInAs(USERS.alice);
+      await ticketRepository.addNote(alicePrinter, buildNote('note-1', 'It is showing a paper jam now.'));
+
+      const updated = await updates.waitFor(ticket => (ticket?.history?.length || 0) === 2);
+      expect(updated?.status).toBe('In Review');
+      expect(updated?.history?.map(entry => entry.type)).toEqual(['status', 'note']);
+    } finally {
+      updates.unsubscribe();
+    }
+  });
+
+  it('reports a ticket that does not exist', async () => {
+    await signInAs(USERS.alice);
+    const updates = recordUpdates<Ticket | null>(onChange =>
+      ticketRepository.subscribeToTicket({ ownerId: USERS.alice.uid, id: 'missing' }, onChange));
+
+    try {
+      expect(await updates.waitFor(() => true)).toBeNull();
+    } finally {
+      updates.unsubscribe();
+    }
+  });
+});